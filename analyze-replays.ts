@@ -0,0 +1,53 @@
+#!/usr/bin/env tsx
+/**
+ * Usage report for a player (or a team's players) across many replays
+ * Usage: npx tsx analyze-replays.ts --player <name> [--player <name>...] [--refresh] [--offline] (--dir <folder> | <replay-url>...)
+ * Example: npx tsx analyze-replays.ts --player chineseobama --dir examples
+ *
+ * Replay links are read from (and downloaded into) data/replays, like test-replay.ts.
+ */
+
+import { analyzeReplays, formatAnalytics } from './src/lib/analytics';
+import { BATCH_CONCURRENCY, mapWithConcurrency } from './src/lib/batch';
+import { createReplayStore, readReplayDirectory } from './src/lib/replayFiles';
+
+function takeOption(args: string[], flag: string): string[] {
+  const values: string[] = [];
+  for (let index = args.indexOf(flag); index !== -1; index = args.indexOf(flag)) {
+    values.push(...args.splice(index, 2).slice(1));
+  }
+  return values;
+}
+
+function takeFlag(args: string[], flag: string): boolean {
+  const index = args.indexOf(flag);
+  if (index !== -1) args.splice(index, 1);
+  return index !== -1;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const players = takeOption(args, '--player');
+  const [directory] = takeOption(args, '--dir');
+  const refresh = takeFlag(args, '--refresh');
+  const offline = takeFlag(args, '--offline');
+
+  if (players.length === 0 || (!directory && args.length === 0)) {
+    console.error('Usage: npx tsx analyze-replays.ts --player <name> [--player <name>...] [--refresh] [--offline] (--dir <folder> | <replay-url>...)');
+    console.error('Example: npx tsx analyze-replays.ts --player chineseobama --dir examples');
+    process.exit(1);
+  }
+
+  try {
+    const store = createReplayStore(undefined, undefined, { refresh, offline });
+    const replays = directory
+      ? await readReplayDirectory(directory)
+      : await mapWithConcurrency(args, BATCH_CONCURRENCY, (url) => store.fetchReplay(url));
+    console.log(formatAnalytics(analyzeReplays(replays, players)));
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,8 +1,61 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
 import { NextResponse } from 'next/server';
-import { summarizeReplay } from '@/lib/parser';
+import { findPlayerSide, httpReplayFetcher, isLocale, parseReplayData, parseReplayInput, parseReplayRef, readReplayObject } from '@/lib/parser';
+import type { Locale, NameTable, RenderOptions, ReplayFetcher, ReplayJSON, Verbosity } from '@/lib/parser';
+import { BATCH_LIMIT, summarizeBatch } from '@/lib/batch';
+import { createReplayStore } from '@/lib/replayFiles';
+import { summarizeSeries } from '@/lib/series';
 
 interface SummaryRequestBody {
   url?: string;
+  /** Batch mode: summarize every replay, each with its own result or error */
+  urls?: unknown;
+  /** Pasted raw log, or the text of an uploaded replay .json/.html file, summarized without fetching */
+  content?: unknown;
+  /** A replay JSON object, as served at `<replay url>.json` */
+  replay?: unknown;
+  markdownIcons?: boolean;
+  discordEmoji?: Record<string, unknown>;
+  verbosity?: string;
+  locale?: string;
+  perspective?: string;
+  /** Also summarize the rest of the best-of set the replay belongs to */
+  series?: boolean;
+  /** Download the replay again instead of using the stored copy (needs REPLAY_STORE_DIR) */
+  refresh?: boolean;
+  /** Only summarize replays that are already stored (needs REPLAY_STORE_DIR) */
+  offline?: boolean;
+}
+
+const VERBOSITY_LEVELS: Verbosity[] = ['full', 'standard', 'highlights'];
+
+// Optional offline name tables, one JSON file per locale: data/names/ja.json and so on. See the README for the format
+const NAMES_DIR = path.join(process.cwd(), 'data', 'names');
+
+async function loadNameTable(locale: Locale): Promise<NameTable | undefined> {
+  if (locale === 'en') return undefined;
+  try {
+    return JSON.parse(await readFile(path.join(NAMES_DIR, `${locale}.json`), 'utf8')) as NameTable;
+  } catch (error) {
+    // Without a table the summary keeps English names
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+// Downloaded replays are only kept on disk when the server sets a folder for them, since a single
+// batch request can add BATCH_LIMIT files
+const REPLAY_STORE_DIR = process.env.REPLAY_STORE_DIR;
+
+function replayFetcher(body: SummaryRequestBody): ReplayFetcher {
+  if (!REPLAY_STORE_DIR) return httpReplayFetcher;
+  return createReplayStore(path.resolve(REPLAY_STORE_DIR), undefined, { refresh: body.refresh === true, offline: body.offline === true });
+}
+
+function readEmojiMap(value: SummaryRequestBody['discordEmoji']): Record<string, string> | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  return Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
 }
 
 export async function POST(request: Request): Promise<NextResponse> {
@@ -13,14 +66,71 @@ export async function POST(request: Request): Promise<NextResponse> {
     return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
   }
 
-  const replayUrl = body.url?.trim();
-  if (!replayUrl) {
-    return NextResponse.json({ error: 'Missing replay URL' }, { status: 400 });
+  const verbosity = VERBOSITY_LEVELS.find((level) => level === body.verbosity);
+  if (body.verbosity !== undefined && !verbosity) {
+    return NextResponse.json({ error: `Unknown verbosity: ${body.verbosity}` }, { status: 400 });
+  }
+
+  if (body.locale !== undefined && !isLocale(body.locale)) {
+    return NextResponse.json({ error: `Unknown locale: ${body.locale}` }, { status: 400 });
+  }
+  const locale = body.locale;
+
+  if (body.offline === true && !REPLAY_STORE_DIR) {
+    return NextResponse.json({ error: 'Offline mode needs a replay store; this server does not keep replays' }, { status: 400 });
+  }
+
+  let uploaded: ReplayJSON | undefined;
+  try {
+    if (body.replay !== undefined) uploaded = readReplayObject(body.replay);
+    else if (typeof body.content === 'string') uploaded = parseReplayInput(body.content);
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid replay' }, { status: 400 });
+  }
+
+  if (body.urls !== undefined) {
+    if (!Array.isArray(body.urls) || body.urls.length === 0) {
+      return NextResponse.json({ error: 'Expected a list of replay URLs' }, { status: 400 });
+    }
+    if (body.urls.length > BATCH_LIMIT) {
+      return NextResponse.json({ error: `At most ${BATCH_LIMIT} replays per batch` }, { status: 400 });
+    }
+  } else if (!uploaded) {
+    if (!body.url?.trim()) {
+      return NextResponse.json({ error: 'Missing replay URL' }, { status: 400 });
+    }
+    try {
+      parseReplayRef(body.url);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid replay URL' }, { status: 400 });
+    }
   }
 
   try {
-    const summary = await summarizeReplay(replayUrl);
-    return NextResponse.json(summary);
+    const options: RenderOptions = {
+      markdownIcons: body.markdownIcons === true,
+      discordEmoji: readEmojiMap(body.discordEmoji),
+      verbosity,
+      locale,
+      names: locale && (await loadNameTable(locale)),
+      perspective: typeof body.perspective === 'string' ? body.perspective.trim() || undefined : undefined,
+    };
+    const store = replayFetcher(body);
+    if (Array.isArray(body.urls)) {
+      return NextResponse.json({ results: await summarizeBatch(body.urls, options, store) });
+    }
+    const data = uploaded ?? (await store.fetchReplay(body.url!.trim()));
+    // Batch entries report this per replay instead, since each may have different players
+    if (options.perspective && !findPlayerSide(data, options.perspective)) {
+      return NextResponse.json({ error: `Unknown player: ${options.perspective}` }, { status: 400 });
+    }
+    if (body.series === true) {
+      const series = await summarizeSeries(data, options, store);
+      // Each game's full result is already in the series html/text; only its outcome is repeated
+      const games = series?.games.map(({ game, summary, guessed }) => ({ game, id: summary?.meta.id, result: summary?.meta.result, guessed }));
+      return NextResponse.json({ ...parseReplayData(data, options), series: series && { ...series, games } });
+    }
+    return NextResponse.json(parseReplayData(data, options));
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json({ error: message }, { status: 500 });
@@ -1,56 +1,153 @@
 'use client';
 
-import { FormEvent, useState } from 'react';
-import { requestSummary, copySummaryToClipboard } from '@/lib/utils';
+import { ChangeEvent, FormEvent, useEffect, useState } from 'react';
+import { requestSummary, requestBatchSummary, requestUploadSummary, copySummaryToClipboard, copyMarkdownToClipboard, copyTextToClipboard, parseEmojiMap } from '@/lib/utils';
+import type { BatchSummaryResult, SummaryLocale, SummaryVerbosity } from '@/lib/utils';
+
+interface SummaryResultInfo {
+  kind: 'win' | 'tie' | 'forfeit' | 'timer' | 'incomplete';
+  turn: number;
+  winner?: string;
+  loser?: string;
+  note?: string;
+}
 
 interface SummaryMeta {
   id?: string;
   format?: string;
-  players: { p1: string; p2: string };
+  gameType?: string;
+  players: { p1: string; p2: string; p3?: string; p4?: string };
   winner?: string;
   loser?: string;
   resultNote?: string;
+  result?: SummaryResultInfo;
+}
+
+interface TeamSheetInfo {
+  player: string;
+  paste: string;
+}
+
+interface MomentumInfo {
+  svg: string;
+}
+
+interface SeriesInfo {
+  players: string[];
+  score: number[];
+  html: string;
+  text: string;
+  markdown: string;
 }
 
 interface SummaryResponse {
   html: string;
   text: string;
+  markdown?: string;
+  discord?: string[];
+  /** Players (ours first), format and how it ended, as the summary's first line */
+  matchLine: string;
+  /** How the game ended ("X Wins on T7"), in the summary's language and from the perspective's side */
+  resultLine: string;
   meta: SummaryMeta;
+  teams?: Partial<Record<'p1' | 'p2' | 'p3' | 'p4', TeamSheetInfo>>;
+  momentum?: MomentumInfo;
+  series?: SeriesInfo;
   error?: string;
 }
 
 const CLIPBOARD_RESET_DELAY = 2000;
+const EMOJI_STORAGE_KEY = 'ps-vis:discord-emoji';
+// Between summaries in "Copy all", so each replay stays readable when pasted together
+const BATCH_SEPARATOR = '\n\n━━━━━━━━━━━━━━━━━━━━\n\n';
+
+function downloadChart(svg: string, filename: string) {
+  const blobUrl = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(blobUrl);
+}
 
 export default function Home() {
   const [url, setUrl] = useState('');
+  const [upload, setUpload] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [summary, setSummary] = useState<SummaryResponse | null>(null);
+  const [batch, setBatch] = useState<BatchSummaryResult[] | null>(null);
+  const [copiedAll, setCopiedAll] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [copiedMarkdown, setCopiedMarkdown] = useState(false);
+  const [markdownIcons, setMarkdownIcons] = useState(false);
+  const [verbosity, setVerbosity] = useState<SummaryVerbosity>('full');
+  const [locale, setLocale] = useState<SummaryLocale>('en');
+  const [perspective, setPerspective] = useState('');
+  const [series, setSeries] = useState(false);
+  const [refresh, setRefresh] = useState(false);
+  const [emojiMap, setEmojiMap] = useState('');
+  const [copiedMessage, setCopiedMessage] = useState<number | null>(null);
+
+  useEffect(() => {
+    setEmojiMap(window.localStorage.getItem(EMOJI_STORAGE_KEY) ?? '');
+  }, []);
+
+  function handleEmojiMapChange(value: string) {
+    setEmojiMap(value);
+    window.localStorage.setItem(EMOJI_STORAGE_KEY, value);
+  }
 
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
-    const sanitizedUrl = url.trim();
-    if (!sanitizedUrl) {
-      setError('Paste a replay link first.');
+    const urls = url.split('\n').map((line) => line.trim()).filter(Boolean);
+    if (urls.length === 0 && !upload.trim()) {
+      setError('Paste a replay link or a battle log first.');
       return;
     }
-    setUrl(sanitizedUrl);
+    setUrl(urls.join('\n'));
     setLoading(true);
     setError(null);
     setCopied(false);
+    setCopiedMarkdown(false);
+    setCopiedAll(false);
     setSummary(null);
+    setBatch(null);
+    const options = {
+      markdownIcons,
+      discordEmoji: parseEmojiMap(emojiMap),
+      verbosity,
+      locale,
+      perspective: perspective.trim() || undefined,
+      refresh,
+    };
     try {
-      const nextSummary = await requestSummary(sanitizedUrl);
-      setSummary(nextSummary);
+      if (upload.trim()) {
+        setSummary(await requestUploadSummary(upload, { ...options, series }));
+      } else if (urls.length > 1) {
+        setBatch(await requestBatchSummary(urls, options));
+      } else {
+        setSummary(await requestSummary(urls[0], { ...options, series }));
+      }
     } catch (err) {
       setSummary(null);
+      setBatch(null);
       setError(err instanceof Error ? err.message : 'Unexpected error');
     } finally {
       setLoading(false);
     }
   }
 
+  async function handleUploadFile(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      setUpload(await file.text());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  }
+
   async function handleCopy() {
     if (!summary) return;
     try {
@@ -62,6 +159,41 @@ export default function Home() {
     }
   }
 
+  async function handleCopyMarkdown() {
+    if (!summary) return;
+    try {
+      await copyMarkdownToClipboard(summary);
+      setCopiedMarkdown(true);
+      setTimeout(() => setCopiedMarkdown(false), CLIPBOARD_RESET_DELAY);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy Markdown');
+    }
+  }
+
+  async function handleCopyAll() {
+    const texts = batch?.flatMap((result) => ('summary' in result ? [result.summary.text] : [])) ?? [];
+    if (texts.length === 0) return;
+    try {
+      await copyTextToClipboard(texts.join(BATCH_SEPARATOR));
+      setCopiedAll(true);
+      setTimeout(() => setCopiedAll(false), CLIPBOARD_RESET_DELAY);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy summaries');
+    }
+  }
+
+  async function handleCopyMessage(index: number) {
+    const message = summary?.discord?.[index];
+    if (!message) return;
+    try {
+      await copyTextToClipboard(message);
+      setCopiedMessage(index);
+      setTimeout(() => setCopiedMessage(null), CLIPBOARD_RESET_DELAY);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy Discord message');
+    }
+  }
+
   return (
     <main>
       <header>
@@ -70,15 +202,102 @@ export default function Home() {
 
       <form onSubmit={handleSubmit}>
         <label htmlFor="replay-url">
-          Replay link
+          Replay links (one per line)
         </label>
-        <input
+        <textarea
           id="replay-url"
-          type="url"
+          rows={3}
           placeholder="https://replay.pokemonshowdown.com/..."
           value={url}
           onChange={(event) => setUrl(event.target.value)}
-          required
+        />
+        <label htmlFor="replay-log">
+          Or paste a battle log or replay JSON
+        </label>
+        <textarea
+          id="replay-log"
+          rows={3}
+          placeholder="|j|☆Player 1"
+          value={upload}
+          onChange={(event) => setUpload(event.target.value)}
+        />
+        <label htmlFor="replay-file">
+          Or open a saved replay (.html or .json)
+        </label>
+        <input
+          id="replay-file"
+          type="file"
+          accept=".html,.htm,.json,.log,.txt"
+          onChange={(event) => void handleUploadFile(event)}
+        />
+        <label htmlFor="verbosity">
+          Detail
+        </label>
+        <select
+          id="verbosity"
+          value={verbosity}
+          onChange={(event) => setVerbosity(event.target.value as SummaryVerbosity)}
+        >
+          <option value="full">Full: every line</option>
+          <option value="standard">Standard: end-of-turn chip folded per side</option>
+          <option value="highlights">Highlights: KOs, gimmicks, switches and field changes</option>
+        </select>
+        <label htmlFor="locale">
+          Language (Pokémon, move and item names stay in English unless the server has a name table)
+        </label>
+        <select
+          id="locale"
+          value={locale}
+          onChange={(event) => setLocale(event.target.value as SummaryLocale)}
+        >
+          <option value="en">English</option>
+          <option value="ja">日本語</option>
+          <option value="es">Español</option>
+          <option value="fr">Français</option>
+        </select>
+        <label htmlFor="perspective">
+          Your side (p1, p2 or your player name)
+        </label>
+        <input
+          id="perspective"
+          type="text"
+          placeholder="p1"
+          value={perspective}
+          onChange={(event) => setPerspective(event.target.value)}
+        />
+        <label>
+          <input
+            type="checkbox"
+            checked={markdownIcons}
+            onChange={(event) => setMarkdownIcons(event.target.checked)}
+          />
+          Sprites in Markdown
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={series}
+            onChange={(event) => setSeries(event.target.checked)}
+          />
+          Whole best-of-3 set
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={refresh}
+            onChange={(event) => setRefresh(event.target.checked)}
+          />
+          Download the replay again
+        </label>
+        <label htmlFor="discord-emoji">
+          Discord emoji (one &quot;Species = &lt;:emoji:id&gt;&quot; per line)
+        </label>
+        <textarea
+          id="discord-emoji"
+          rows={3}
+          placeholder="Gholdengo = <:gholdengo:123456789>"
+          value={emojiMap}
+          onChange={(event) => handleEmojiMapChange(event.target.value)}
         />
         <button
           type="submit"
@@ -98,8 +317,21 @@ export default function Home() {
         <SummaryResult
           summary={summary}
           copied={copied}
+          copiedMarkdown={copiedMarkdown}
           loading={loading}
           onCopy={handleCopy}
+          onCopyMarkdown={handleCopyMarkdown}
+          copiedMessage={copiedMessage}
+          onCopyMessage={handleCopyMessage}
+        />
+      )}
+
+      {batch && (
+        <BatchResults
+          results={batch}
+          copiedAll={copiedAll}
+          loading={loading}
+          onCopyAll={handleCopyAll}
         />
       )}
     </main>
@@ -109,26 +341,27 @@ export default function Home() {
 interface SummaryResultProps {
   summary: SummaryResponse;
   copied: boolean;
+  copiedMarkdown: boolean;
   loading: boolean;
   onCopy: () => Promise<void>;
+  onCopyMarkdown: () => Promise<void>;
+  copiedMessage: number | null;
+  onCopyMessage: (index: number) => Promise<void>;
 }
 
-function SummaryResult({ summary, copied, loading, onCopy }: SummaryResultProps) {
-  const { players, format, winner, loser, resultNote } = summary.meta;
-  const p1Tag = winner === players.p1 ? '[W] ' : loser === players.p1 ? '[L] ' : '';
-  const p2Tag = winner === players.p2 ? '[W] ' : loser === players.p2 ? '[L] ' : '';
-  const metaLine = `${p1Tag}${players.p1} vs ${p2Tag}${players.p2}`;
-  const formatNote = format ? ` — ${format}` : '';
-  const resultSuffix = resultNote ? ` (${resultNote})` : '';
+function SummaryResult({ summary, copied, copiedMarkdown, loading, onCopy, onCopyMarkdown, copiedMessage, onCopyMessage }: SummaryResultProps) {
+  const { id } = summary.meta;
+  const momentumSvg = summary.momentum?.svg;
+  const discordMessages = summary.discord ?? [];
+  const teamSheets = Object.values(summary.teams ?? {}).filter((team): team is TeamSheetInfo => Boolean(team?.paste));
 
   return (
     <section>
       <div>
         <div>
-          {metaLine}
-          {formatNote}
-          {resultSuffix}
+          {summary.matchLine}
         </div>
+        <div>{summary.resultLine}</div>
         <div>
           <button
             type="button"
@@ -137,10 +370,28 @@ function SummaryResult({ summary, copied, loading, onCopy }: SummaryResultProps)
           >
             {copied ? 'Copied!' : 'Copy summary to clipboard'}
           </button>
+          {summary.markdown && (
+            <button
+              type="button"
+              onClick={() => void onCopyMarkdown()}
+              disabled={loading}
+            >
+              {copiedMarkdown ? 'Copied!' : 'Copy Markdown'}
+            </button>
+          )}
         </div>
       </div>
 
       <div>
+        {summary.series && (
+          <div>
+            <h2>Best-of-3 set</h2>
+            <div
+              dangerouslySetInnerHTML={{ __html: summary.series.html }}
+            />
+          </div>
+        )}
+
         <div>
           <h2>Preview</h2>
           <div
@@ -154,7 +405,105 @@ function SummaryResult({ summary, copied, loading, onCopy }: SummaryResultProps)
             {summary.text}
           </pre>
         </div>
+
+        {discordMessages.length > 0 && (
+          <div>
+            <h3>Discord</h3>
+            {discordMessages.map((message, index) => (
+              <div key={index}>
+                <button
+                  type="button"
+                  onClick={() => void onCopyMessage(index)}
+                  disabled={loading}
+                >
+                  {copiedMessage === index ? 'Copied!' : `Copy message ${index + 1} of ${discordMessages.length}`}
+                </button>
+                <pre>
+                  {message}
+                </pre>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {momentumSvg && (
+          <div>
+            <h3>Momentum</h3>
+            <div
+              dangerouslySetInnerHTML={{ __html: momentumSvg }}
+            />
+            <button
+              type="button"
+              onClick={() => downloadChart(momentumSvg, `${id ?? 'replay'}-momentum.svg`)}
+            >
+              Download chart
+            </button>
+          </div>
+        )}
+
+        {teamSheets.length > 0 && (
+          <div>
+            <h3>Revealed team sheets</h3>
+            {teamSheets.map((team) => (
+              <div key={team.player}>
+                <h4>{team.player}</h4>
+                <pre>
+                  {team.paste}
+                </pre>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </section>
   );
 }
+
+interface BatchResultsProps {
+  results: BatchSummaryResult[];
+  copiedAll: boolean;
+  loading: boolean;
+  onCopyAll: () => Promise<void>;
+}
+
+function BatchResults({ results, copiedAll, loading, onCopyAll }: BatchResultsProps) {
+  const summarized = results.filter((result) => 'summary' in result).length;
+
+  return (
+    <section>
+      <div>
+        <div>
+          {summarized} of {results.length} replays summarized
+        </div>
+        <button
+          type="button"
+          onClick={() => void onCopyAll()}
+          disabled={loading || summarized === 0}
+        >
+          {copiedAll ? 'Copied!' : 'Copy all'}
+        </button>
+      </div>
+
+      {results.map((result, index) => (
+        <details key={`${index}-${result.url}`}>
+          <summary>
+            {'summary' in result ? result.summary.matchLine : `${result.url} — failed`}
+          </summary>
+          {'summary' in result ? (
+            <div>
+              <div>{result.url}</div>
+              <div>{result.summary.resultLine}</div>
+              <div
+                dangerouslySetInnerHTML={{ __html: result.summary.html }}
+              />
+            </div>
+          ) : (
+            <div>
+              <strong>Error ({result.error.kind}):</strong> {result.error.message}
+            </div>
+          )}
+        </details>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,151 @@
+import { parseReplayData } from './parser';
+import type { RenderOptions, SideId, SummarizedReplay } from './parser';
+import type { ReplayJSON } from './replays';
+import { toId } from './utils';
+
+/** Games played and won with (or against) one Pokémon or lead pair. */
+export interface UsageRecord {
+  name: string;
+  games: number;
+  wins: number;
+}
+
+export interface TeraRecord {
+  species: string;
+  /** Games it was brought to */
+  games: number;
+  /** Games it terastallized in */
+  teras: number;
+  /** Tera types used, by count */
+  types: Record<string, number>;
+}
+
+/** Usage across many replays, seen from the tracked players' side. */
+export interface ReplayAnalytics {
+  /** Names counted as "us": one player, their alts, or everyone on a team */
+  players: string[];
+  games: number;
+  wins: number;
+  /** Average game length in turns */
+  averageTurns: number;
+  brought: UsageRecord[];
+  leads: UsageRecord[];
+  /** Leads of a game in alphabetical order, so "A + B" and "B + A" count together */
+  leadPairs: UsageRecord[];
+  tera: TeraRecord[];
+  /** Opposing species brought against us, most often faced first; wins are ours */
+  opponents: UsageRecord[];
+  /** Replays none of the tracked players appear in */
+  skipped: string[];
+}
+
+function tally(records: Map<string, UsageRecord>, name: string, won: boolean) {
+  const record = records.get(name) ?? { name, games: 0, wins: 0 };
+  record.games += 1;
+  if (won) record.wins += 1;
+  records.set(name, record);
+}
+
+function byGames<T extends { games: number }>(records: Iterable<T>, name: (record: T) => string): T[] {
+  return [...records].sort((a, b) => b.games - a.games || name(a).localeCompare(name(b)));
+}
+
+function playerSide(summary: SummarizedReplay, ids: Set<string>): SideId | undefined {
+  const sides = Object.entries(summary.meta.players) as [SideId, string | undefined][];
+  return sides.find(([, name]) => ids.has(toId(name)))?.[0];
+}
+
+/** Tallies already-summarized replays for the given players; replays without them are skipped. */
+export function analyzeSummaries(summaries: SummarizedReplay[], players: string[]): ReplayAnalytics {
+  const ids = new Set(players.map(toId));
+  const brought = new Map<string, UsageRecord>();
+  const leads = new Map<string, UsageRecord>();
+  const leadPairs = new Map<string, UsageRecord>();
+  const opponents = new Map<string, UsageRecord>();
+  const tera = new Map<string, TeraRecord>();
+  const skipped: string[] = [];
+  let games = 0;
+  let wins = 0;
+  let turns = 0;
+
+  summaries.forEach((summary, index) => {
+    const side = playerSide(summary, ids);
+    const lineup = side && summary.lineups[side];
+    if (!side || !lineup) {
+      skipped.push(summary.meta.id ?? `#${index + 1}`);
+      return;
+    }
+    const won = ids.has(toId(summary.meta.winner));
+    games += 1;
+    if (won) wins += 1;
+    turns += summary.meta.result.turn;
+
+    for (const species of lineup.brought) {
+      tally(brought, species, won);
+      const record = tera.get(species) ?? { species, games: 0, teras: 0, types: {} };
+      record.games += 1;
+      const use = summary.meta.gimmicks.find((gimmick) => gimmick.kind === 'tera' && gimmick.side === side && gimmick.pokemon === species);
+      if (use) {
+        record.teras += 1;
+        if (use.detail) record.types[use.detail] = (record.types[use.detail] ?? 0) + 1;
+      }
+      tera.set(species, record);
+    }
+    for (const species of lineup.leads) tally(leads, species, won);
+    if (lineup.leads.length > 1) tally(leadPairs, [...lineup.leads].sort().join(' + '), won);
+
+    const opposing = Object.entries(summary.lineups).filter(([other]) => other !== side && !ids.has(toId(summary.meta.players[other as SideId])));
+    for (const [, other] of opposing) {
+      for (const species of other?.brought ?? []) tally(opponents, species, won);
+    }
+  });
+
+  return {
+    players,
+    games,
+    wins,
+    averageTurns: games ? turns / games : 0,
+    brought: byGames(brought.values(), (record) => record.name),
+    leads: byGames(leads.values(), (record) => record.name),
+    leadPairs: byGames(leadPairs.values(), (record) => record.name),
+    tera: byGames([...tera.values()].filter((record) => record.teras > 0), (record) => record.species),
+    opponents: byGames(opponents.values(), (record) => record.name),
+    skipped,
+  };
+}
+
+/** Summarizes each replay, then tallies them for the given players. */
+export function analyzeReplays(replays: ReplayJSON[], players: string[], options: RenderOptions = {}): ReplayAnalytics {
+  return analyzeSummaries(replays.map((replay) => parseReplayData(replay, options)), players);
+}
+
+function percent(part: number, whole: number): string {
+  return whole ? `${Math.round((part / whole) * 100)}%` : '0%';
+}
+
+function usageLine(record: UsageRecord): string {
+  return `  ${record.name} — ${record.games} ${record.games === 1 ? 'game' : 'games'}, ${record.wins} won (${percent(record.wins, record.games)})`;
+}
+
+function teraLine(record: TeraRecord): string {
+  const types = Object.entries(record.types).map(([type, count]) => `${type} ×${count}`).join(', ');
+  return `  ${record.species} — ${record.teras} of ${record.games} games${types ? ` (${types})` : ''}`;
+}
+
+/** Plain-text report, one section per table, in the shape we used to keep in spreadsheets. */
+export function formatAnalytics(analytics: ReplayAnalytics): string {
+  const sections: [string, string[]][] = [
+    ['Brought', analytics.brought.map(usageLine)],
+    ['Leads', analytics.leads.map(usageLine)],
+    ['Lead pairs', analytics.leadPairs.map(usageLine)],
+    ['Terastallized', analytics.tera.map(teraLine)],
+    ['Most common opponents', analytics.opponents.map(usageLine)],
+  ];
+  const header = `${analytics.players.join(' / ')} — ${analytics.games} ${analytics.games === 1 ? 'game' : 'games'}, `
+    + `${analytics.wins} won (${percent(analytics.wins, analytics.games)}), ${analytics.averageTurns.toFixed(1)} turns on average`;
+  return [
+    header,
+    ...sections.filter(([, lines]) => lines.length).flatMap(([title, lines]) => ['', title, ...lines]),
+    ...(analytics.skipped.length ? ['', `Skipped (player not in replay): ${analytics.skipped.join(', ')}`] : []),
+  ].join('\n');
+}
@@ -0,0 +1,68 @@
+import { parseReplayData } from './parser';
+import type { RenderOptions, SummarizedReplay } from './parser';
+import { httpReplayFetcher, parseReplayRef } from './replays';
+import type { ReplayFetcher, ReplayJSON } from './replays';
+
+/** Replays fetched at once; the replay server rate-limits bursts */
+export const BATCH_CONCURRENCY = 4;
+/** Most replays one batch request may ask for */
+export const BATCH_LIMIT = 50;
+
+/** "invalid-url" for an entry that isn't a replay link or id, "fetch" when the replay couldn't be loaded, "parse" when its log couldn't be summarized */
+export type BatchErrorKind = 'invalid-url' | 'fetch' | 'parse';
+
+export type BatchResult =
+  | { url: string; summary: SummarizedReplay }
+  | { url: string; error: { kind: BatchErrorKind; message: string } };
+
+/** Runs `task` over `items` with at most `limit` running at a time; results keep the input order. */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await task(items[index]);
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+async function summarizeOne(url: unknown, options: RenderOptions, fetcher: ReplayFetcher): Promise<BatchResult> {
+  if (typeof url !== 'string' || !url.trim()) {
+    return { url: typeof url === 'string' ? url : '', error: { kind: 'invalid-url', message: 'Missing replay URL' } };
+  }
+  const trimmed = url.trim();
+  try {
+    parseReplayRef(trimmed);
+  } catch (error) {
+    return { url: trimmed, error: { kind: 'invalid-url', message: errorMessage(error) } };
+  }
+  let data: ReplayJSON;
+  try {
+    data = await fetcher.fetchReplay(trimmed);
+  } catch (error) {
+    return { url: trimmed, error: { kind: 'fetch', message: errorMessage(error) } };
+  }
+  try {
+    return { url: trimmed, summary: parseReplayData(data, options) };
+  } catch (error) {
+    return { url: trimmed, error: { kind: 'parse', message: errorMessage(error) } };
+  }
+}
+
+/** Summarizes each replay independently; one failing replay doesn't fail the batch. */
+export function summarizeBatch(
+  urls: unknown[],
+  options: RenderOptions = {},
+  fetcher: ReplayFetcher = httpReplayFetcher,
+  concurrency = BATCH_CONCURRENCY,
+): Promise<BatchResult[]> {
+  return mapWithConcurrency(urls, concurrency, (url) => summarizeOne(url, options, fetcher));
+}
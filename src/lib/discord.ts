@@ -0,0 +1,49 @@
+import { toId } from './utils';
+
+export const DISCORD_MESSAGE_LIMIT = 2000;
+
+/** Looks a species up in a user-supplied emoji map, ignoring case and punctuation in the keys. */
+export function findDiscordEmoji(emoji: Record<string, string> | undefined, species: string): string | undefined {
+  if (!emoji) return undefined;
+  const id = toId(species);
+  for (const [key, value] of Object.entries(emoji)) {
+    if (toId(key) === id && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+function splitOversized(block: string, limit: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const line of block.split('\n')) {
+    // A single line over the limit can only be cut mid-line
+    for (let start = 0; start < Math.max(line.length, 1); start += limit) {
+      const chunk = line.slice(start, start + limit);
+      if (current && current.length + 1 + chunk.length > limit) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${chunk}` : chunk;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Packs Markdown blocks (one per turn) into as few messages as fit under the limit.
+ * Blocks are only broken up when one doesn't fit in a message on its own.
+ */
+export function splitDiscordMessages(blocks: string[], limit = DISCORD_MESSAGE_LIMIT): string[] {
+  const messages: string[] = [];
+  let current = '';
+  for (const block of blocks.flatMap((entry) => (entry.length > limit ? splitOversized(entry, limit) : [entry]))) {
+    if (current && current.length + 2 + block.length > limit) {
+      messages.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${block}` : block;
+  }
+  if (current) messages.push(current);
+  return messages;
+}
@@ -0,0 +1,96 @@
+export type GimmickKind = 'tera' | 'mega' | 'primal' | 'zmove' | 'ultraburst' | 'dynamax';
+
+export const GIMMICK_LABELS: Record<GimmickKind, string> = {
+  tera: 'Terastallize',
+  mega: 'Mega Evolve',
+  primal: 'Primal Reversion',
+  zmove: 'Z-Move',
+  ultraburst: 'Ultra Burst',
+  dynamax: 'Dynamax',
+};
+
+export const DYNAMAX_TURNS = 3;
+
+const MAX_MOVE_TYPES: Record<string, string> = {
+  'Max Strike': 'Normal',
+  'Max Flare': 'Fire',
+  'Max Geyser': 'Water',
+  'Max Overgrowth': 'Grass',
+  'Max Lightning': 'Electric',
+  'Max Hailstorm': 'Ice',
+  'Max Knuckle': 'Fighting',
+  'Max Ooze': 'Poison',
+  'Max Quake': 'Ground',
+  'Max Airstream': 'Flying',
+  'Max Mindstorm': 'Psychic',
+  'Max Flutterby': 'Bug',
+  'Max Rockfall': 'Rock',
+  'Max Phantasm': 'Ghost',
+  'Max Wyrmwind': 'Dragon',
+  'Max Darkness': 'Dark',
+  'Max Steelspike': 'Steel',
+  'Max Starfall': 'Fairy',
+};
+
+// Gigantamax species replace the Max Move of their signature type
+const GMAX_MOVES: Record<string, { type: string; move: string }> = {
+  venusaur: { type: 'Grass', move: 'G-Max Vine Lash' },
+  charizard: { type: 'Fire', move: 'G-Max Wildfire' },
+  blastoise: { type: 'Water', move: 'G-Max Cannonade' },
+  butterfree: { type: 'Bug', move: 'G-Max Befuddle' },
+  pikachu: { type: 'Electric', move: 'G-Max Volt Crash' },
+  meowth: { type: 'Normal', move: 'G-Max Gold Rush' },
+  machamp: { type: 'Fighting', move: 'G-Max Chi Strike' },
+  gengar: { type: 'Ghost', move: 'G-Max Terror' },
+  kingler: { type: 'Water', move: 'G-Max Foam Burst' },
+  lapras: { type: 'Ice', move: 'G-Max Resonance' },
+  eevee: { type: 'Normal', move: 'G-Max Cuddle' },
+  snorlax: { type: 'Normal', move: 'G-Max Replenish' },
+  garbodor: { type: 'Poison', move: 'G-Max Malodor' },
+  melmetal: { type: 'Steel', move: 'G-Max Meltdown' },
+  rillaboom: { type: 'Grass', move: 'G-Max Drum Solo' },
+  cinderace: { type: 'Fire', move: 'G-Max Fireball' },
+  inteleon: { type: 'Water', move: 'G-Max Hydrosnipe' },
+  corviknight: { type: 'Flying', move: 'G-Max Wind Rage' },
+  orbeetle: { type: 'Psychic', move: 'G-Max Gravitas' },
+  drednaw: { type: 'Water', move: 'G-Max Stonesurge' },
+  coalossal: { type: 'Rock', move: 'G-Max Volcalith' },
+  flapple: { type: 'Grass', move: 'G-Max Tartness' },
+  appletun: { type: 'Grass', move: 'G-Max Sweetness' },
+  sandaconda: { type: 'Ground', move: 'G-Max Sandblast' },
+  toxtricity: { type: 'Electric', move: 'G-Max Stun Shock' },
+  centiskorch: { type: 'Fire', move: 'G-Max Centiferno' },
+  hatterene: { type: 'Fairy', move: 'G-Max Smite' },
+  grimmsnarl: { type: 'Dark', move: 'G-Max Snooze' },
+  alcremie: { type: 'Fairy', move: 'G-Max Finale' },
+  copperajah: { type: 'Steel', move: 'G-Max Steelsurge' },
+  duraludon: { type: 'Dragon', move: 'G-Max Depletion' },
+  urshifu: { type: 'Fighting', move: 'G-Max One Blow' },
+  urshifurapidstrike: { type: 'Water', move: 'G-Max Rapid Flow' },
+};
+
+function baseSpeciesId(species: string): string {
+  return species
+    .replace(/-Gmax$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Returns the name PS shows for a move used while Dynamaxed: a Gigantamax
+ * Pokémon's Max Move of its signature type becomes its G-Max Move.
+ */
+export function getMaxMoveName(move: string, species: string, gigantamax: boolean): string {
+  if (!gigantamax) return move;
+  const type = MAX_MOVE_TYPES[move];
+  const gmax = GMAX_MOVES[baseSpeciesId(species)];
+  return type && gmax && gmax.type === type ? gmax.move : move;
+}
+
+/**
+ * Status moves powered by a Z-Crystal keep their name in the log with a
+ * [zeffect] tag; PS displays them with a "Z-" prefix.
+ */
+export function getZMoveName(move: string): string {
+  return move.startsWith('Z-') ? move : `Z-${move}`;
+}
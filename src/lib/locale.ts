@@ -0,0 +1,463 @@
+import { GIMMICK_LABELS } from './gimmicks';
+import type { GimmickKind } from './gimmicks';
+import { toId } from './utils';
+
+export type Locale = 'en' | 'ja' | 'es' | 'fr';
+
+export const LOCALES: Locale[] = ['en', 'ja', 'es', 'fr'];
+
+/**
+ * Strings the summary is built from. Effect, ability and volatile names come straight from the
+ * protocol and stay in English, like species, moves and items without a name table.
+ */
+export interface Messages {
+  turn: (turn: number) => string;
+  lead: string;
+  /** "Pelipper's Drizzle" */
+  possessive: (pokemon: string, thing: string) => string;
+  enters: string;
+  faintedOnEntry: string;
+  isAsleep: string;
+  cantMove: (reason: string, move?: string) => string;
+  effectStarts: (effect: string) => string;
+  effectEnds: (effect: string) => string;
+  lostItem: (item: string) => string;
+  gainedItem: (item: string) => string;
+  /** Stat abbreviations for boosts, keyed by protocol stat id; kept to one word so boosts can be merged */
+  stats: Record<string, string>;
+  gimmicks: Record<GimmickKind, string>;
+  gigantamax: string;
+  transformedAs: (species: string) => string;
+  /** Tags shown in parentheses after a Pokémon's name */
+  markers: Record<'opp' | 'protect' | 'immune' | 'illusion' | 'wokeUp' | 'noLongerConfused' | 'mvp', string>;
+  /** Damage line annotations, keyed crit, SE, resisted and OHKO */
+  hits: Record<string, string>;
+  /** Status ids (brn, par...) as short labels; unlisted ids are shown uppercased */
+  statusLabels: Record<string, string>;
+  /** Type names by English name; unlisted types stay in English */
+  types: Record<string, string>;
+  cured: (status: string) => string;
+  activates: (effect: string) => string;
+  fails: (reason?: string) => string;
+  misses: (target?: string) => string;
+  transformsInto: (species: string) => string;
+  substituteDamaged: string;
+  substituteFaded: string;
+  illusionBroken: string;
+  sideConditionEnded: (side: string, condition: string) => string;
+  terrain: (terrain: string) => string;
+  /** One half of a Trick or Switcheroo swap: the item and who ends up holding it */
+  itemTo: (item: string, pokemon: string) => string;
+  teraType: (type: string) => string;
+  dynamaxTurns: (count: number) => string;
+  turningPoints: string;
+  endOfTurn: string;
+  teamSheet: (player: string) => string;
+  statsTitle: (player: string) => string;
+  pokemonStats: {
+    dealt: (percent: number) => string;
+    taken: (percent: number) => string;
+    kos: (count: number) => string;
+    fainted: (count: number) => string;
+    turns: (count: number) => string;
+    healed: (percent: number) => string;
+  };
+  wins: (winner: string, turn: number) => string;
+  noWinner: (turn: number) => string;
+  noResult: (turn: number) => string;
+  /** Result lines for a summary told from one side */
+  won: (turn: number) => string;
+  lost: (turn: number) => string;
+  notes: Record<'timer' | 'forfeit' | 'allForfeited' | 'tie' | 'incomplete', string>;
+  series: {
+    game: (game: number) => string;
+    notFound: string;
+    /** Marks a game found by guessing its replay id */
+    guessed: string;
+    lineups: string;
+    leads: string;
+    brought: string;
+  };
+  ahead: (player: string) => string;
+  fainted: (pokemon: string) => string;
+  moments: {
+    attack: (pokemon: string, move: string) => string;
+    ko: (pokemon: string, attacker: string | undefined, crit: boolean) => string;
+    miss: (attack: string, accuracy: number) => string;
+    fullyParalyzed: (pokemon: string) => string;
+    frozen: (pokemon: string) => string;
+    /** Status ids (brn, par...) as the condition a Pokémon is left in */
+    statuses: Record<string, string>;
+    statused: (pokemon: string, status: string, move: string) => string;
+    survives: (pokemon: string, hp: number) => string;
+    /** Every Pokémon that fainted in one turn, whichever sides they were on, so not necessarily a trade */
+    multiKo: (fallen: string[]) => string;
+    takesLead: (player: string, forGood: boolean) => string;
+    sweeps: (pokemon: string, count: number) => string;
+    closesOut: (player: string, count: number) => string;
+  };
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const MESSAGES: Record<Locale, Messages> = {
+  en: {
+    turn: (turn) => `T${turn}`,
+    lead: 'Lead',
+    possessive: (pokemon, thing) => `${pokemon}${pokemon.endsWith('s') ? "'" : "'s"} ${thing}`,
+    enters: 'enters',
+    faintedOnEntry: 'fainted on entry',
+    isAsleep: 'is asleep',
+    cantMove: (reason, move) => `can't move (${reason}${move ? ` while using ${move}` : ''})`,
+    effectStarts: (effect) => `${effect} starts`,
+    effectEnds: (effect) => `${effect} ends`,
+    lostItem: (item) => `lost ${item}`,
+    gainedItem: (item) => `Item gained: ${item}`,
+    stats: { atk: 'ATK', def: 'DEF', spa: 'SPA', spd: 'SPD', spe: 'SPE', accuracy: 'ACCURACY', evasion: 'EVASION' },
+    gimmicks: GIMMICK_LABELS,
+    gigantamax: 'Gigantamax',
+    transformedAs: (species) => `(as ${species})`,
+    markers: { opp: 'opp', protect: 'Protect', immune: 'immune', illusion: 'Illusion', wokeUp: 'woke up', noLongerConfused: 'no longer confused', mvp: 'MVP' },
+    hits: { crit: 'crit', SE: 'SE', resisted: 'resisted', OHKO: 'OHKO' },
+    statusLabels: { brn: 'BRN', par: 'PAR', frz: 'FRZ', psn: 'PSN', tox: 'TOX', slp: 'SLP' },
+    types: {},
+    cured: (status) => `Cured ${status}`,
+    activates: (effect) => `Activates ${effect}`,
+    fails: (reason) => `Fails${reason ? ` (${reason})` : ''}`,
+    misses: (target) => `Misses${target ? ` ${target}` : ''}`,
+    transformsInto: (species) => `Transforms into ${species}`,
+    substituteDamaged: 'Substitute took damage',
+    substituteFaded: 'Substitute faded',
+    illusionBroken: 'Illusion broken',
+    sideConditionEnded: (side, condition) => `Side condition ended: ${side} -> ${condition}`,
+    terrain: (terrain) => `Terrain: ${terrain}`,
+    itemTo: (item, pokemon) => `${item} to ${pokemon}`,
+    teraType: (type) => `Tera ${type}`,
+    dynamaxTurns: (count) => plural(count, 'turn'),
+    turningPoints: 'Turning points',
+    endOfTurn: 'End of turn',
+    teamSheet: (player) => `Team sheet — ${player}`,
+    statsTitle: (player) => `Stats — ${player}`,
+    pokemonStats: {
+      dealt: (percent) => `${percent}% dealt`,
+      taken: (percent) => `${percent}% taken`,
+      kos: (count) => plural(count, 'KO'),
+      fainted: (count) => (count === 1 ? 'fainted' : `fainted ${count}×`),
+      turns: (count) => plural(count, 'turn'),
+      healed: (percent) => `${percent}% healed`,
+    },
+    wins: (winner, turn) => `${winner} Wins on T${turn}`,
+    noWinner: (turn) => `No winner on T${turn}`,
+    noResult: (turn) => `No result: replay ends on T${turn}`,
+    won: (turn) => `Won on T${turn}`,
+    lost: (turn) => `Lost on T${turn}`,
+    notes: { timer: 'Timer', forfeit: 'Forfeit', allForfeited: 'All players forfeited', tie: 'Tie', incomplete: 'Incomplete' },
+    series: { game: (game) => `Game ${game}`, notFound: 'not found', guessed: 'replay id guessed', lineups: 'Leads and brought', leads: 'Leads', brought: 'Brought' },
+    ahead: (player) => `${player} ahead`,
+    fainted: (pokemon) => `${pokemon} fainted`,
+    moments: {
+      attack: (pokemon, move) => `${pokemon}'s ${move}`,
+      ko: (pokemon, attacker, crit) => {
+        if (!attacker) return `${pokemon} goes down`;
+        return crit ? `${attacker} crits and KOs ${pokemon}` : `${attacker} KOs ${pokemon}`;
+      },
+      miss: (attack, accuracy) => `${attack} misses (${accuracy}% accurate)`,
+      fullyParalyzed: (pokemon) => `${pokemon} is fully paralyzed`,
+      frozen: (pokemon) => `${pokemon} is frozen solid`,
+      statuses: { brn: 'burned', par: 'paralyzed', frz: 'frozen', psn: 'poisoned', tox: 'badly poisoned', slp: 'put to sleep' },
+      statused: (pokemon, status, move) => `${pokemon} is ${status} by ${move}`,
+      survives: (pokemon, hp) => `${pokemon} survives on ${hp}%`,
+      multiKo: (fallen) => `${fallen.length === 2 ? 'Double' : `${fallen.length}×`} KO: ${fallen.join(', ')} go down`,
+      takesLead: (player, forGood) => `${player} takes the lead${forGood ? ' for good' : ''}`,
+      sweeps: (pokemon, count) => `${pokemon} sweeps the last ${count} Pokémon`,
+      closesOut: (player, count) => `${player} closes it out with ${count} unanswered KOs`,
+    },
+  },
+  ja: {
+    turn: (turn) => `${turn}ターン目`,
+    lead: '先発',
+    possessive: (pokemon, thing) => `${pokemon}の${thing}`,
+    enters: '登場',
+    faintedOnEntry: '登場時にひんし',
+    isAsleep: 'ねむっている',
+    cantMove: (reason, move) => `動けない (${reason}${move ? `、${move}` : ''})`,
+    effectStarts: (effect) => `${effect} 開始`,
+    effectEnds: (effect) => `${effect} 終了`,
+    lostItem: (item) => `${item}を失った`,
+    gainedItem: (item) => `${item}を手に入れた`,
+    stats: { atk: 'こうげき', def: 'ぼうぎょ', spa: 'とくこう', spd: 'とくぼう', spe: 'すばやさ', accuracy: 'めいちゅう', evasion: 'かいひ' },
+    gimmicks: { tera: 'テラスタル', mega: 'メガシンカ', primal: 'ゲンシカイキ', zmove: 'Zワザ', ultraburst: 'ウルトラバースト', dynamax: 'ダイマックス' },
+    gigantamax: 'キョダイマックス',
+    transformedAs: (species) => `(${species}にへんしん)`,
+    markers: { opp: '相手', protect: 'まもる', immune: '効果なし', illusion: 'イリュージョン', wokeUp: '目を覚ました', noLongerConfused: 'こんらんが解けた', mvp: 'MVP' },
+    hits: { crit: '急所', SE: '効果抜群', resisted: 'いまひとつ', OHKO: '一撃必殺' },
+    statusLabels: { brn: 'やけど', par: 'まひ', frz: 'こおり', psn: 'どく', tox: 'もうどく', slp: 'ねむり' },
+    types: {
+      Normal: 'ノーマル', Fire: 'ほのお', Water: 'みず', Electric: 'でんき', Grass: 'くさ', Ice: 'こおり',
+      Fighting: 'かくとう', Poison: 'どく', Ground: 'じめん', Flying: 'ひこう', Psychic: 'エスパー', Bug: 'むし',
+      Rock: 'いわ', Ghost: 'ゴースト', Dragon: 'ドラゴン', Dark: 'あく', Steel: 'はがね', Fairy: 'フェアリー', Stellar: 'ステラ',
+    },
+    cured: (status) => `${status}が治った`,
+    activates: (effect) => `${effect} 発動`,
+    fails: (reason) => `失敗${reason ? ` (${reason})` : ''}`,
+    misses: (target) => (target ? `${target}に外れた` : '外れた'),
+    transformsInto: (species) => `${species}にへんしん`,
+    substituteDamaged: 'みがわりがダメージを受けた',
+    substituteFaded: 'みがわりが消えた',
+    illusionBroken: 'イリュージョンが解けた',
+    sideConditionEnded: (side, condition) => `${side}の場の効果終了: ${condition}`,
+    terrain: (terrain) => `フィールド: ${terrain}`,
+    itemTo: (item, pokemon) => `${pokemon}に${item}`,
+    teraType: (type) => `テラスタイプ ${type}`,
+    dynamaxTurns: (count) => `${count}ターン`,
+    turningPoints: '勝負の分かれ目',
+    endOfTurn: 'ターン終了時',
+    teamSheet: (player) => `チームシート — ${player}`,
+    statsTitle: (player) => `成績 — ${player}`,
+    pokemonStats: {
+      dealt: (percent) => `与ダメージ ${percent}%`,
+      taken: (percent) => `被ダメージ ${percent}%`,
+      kos: (count) => `${count}体撃破`,
+      fainted: (count) => (count === 1 ? 'ひんし' : `ひんし ${count}回`),
+      turns: (count) => `${count}ターン`,
+      healed: (percent) => `回復 ${percent}%`,
+    },
+    wins: (winner, turn) => `${winner}の勝利 (${turn}ターン目)`,
+    noWinner: (turn) => `勝者なし (${turn}ターン目)`,
+    noResult: (turn) => `結果なし: リプレイは${turn}ターン目で終了`,
+    won: (turn) => `${turn}ターン目で勝利`,
+    lost: (turn) => `${turn}ターン目で敗北`,
+    notes: { timer: '時間切れ', forfeit: '降参', allForfeited: '全員降参', tie: '引き分け', incomplete: '未完了' },
+    series: { game: (game) => `第${game}戦`, notFound: '見つかりません', guessed: 'リプレイIDは推測', lineups: '先発と選出', leads: '先発', brought: '選出' },
+    ahead: (player) => `${player} 優勢`,
+    fainted: (pokemon) => `${pokemon} ひんし`,
+    moments: {
+      attack: (pokemon, move) => `${pokemon}の${move}`,
+      ko: (pokemon, attacker, crit) => {
+        if (!attacker) return `${pokemon}がひんし`;
+        return crit ? `${attacker}が急所に当たり${pokemon}を倒した` : `${attacker}で${pokemon}を倒した`;
+      },
+      miss: (attack, accuracy) => `${attack}が外れた (命中${accuracy}%)`,
+      fullyParalyzed: (pokemon) => `${pokemon}はしびれて動けない`,
+      frozen: (pokemon) => `${pokemon}はこおって動けない`,
+      statuses: { brn: 'やけど', par: 'まひ', frz: 'こおり', psn: 'どく', tox: 'もうどく', slp: 'ねむり' },
+      statused: (pokemon, status, move) => `${move}で${pokemon}が${status}状態に`,
+      survives: (pokemon, hp) => `${pokemon}がHP${hp}%で耐えた`,
+      multiKo: (fallen) => `${fallen.length}体同時ひんし: ${fallen.join('、')}`,
+      takesLead: (player, forGood) => (forGood ? `${player}がリードを奪い、そのまま逃げ切った` : `${player}がリードを奪う`),
+      sweeps: (pokemon, count) => `${pokemon}が最後の${count}体を一掃`,
+      closesOut: (player, count) => `${player}が${count}連続撃破で締めくくった`,
+    },
+  },
+  es: {
+    turn: (turn) => `T${turn}`,
+    lead: 'Inicio',
+    possessive: (pokemon, thing) => `${thing} de ${pokemon}`,
+    enters: 'entra',
+    faintedOnEntry: 'se debilita al entrar',
+    isAsleep: 'está dormido',
+    cantMove: (reason, move) => `no puede moverse (${reason}${move ? ` al usar ${move}` : ''})`,
+    effectStarts: (effect) => `${effect} comienza`,
+    effectEnds: (effect) => `${effect} termina`,
+    lostItem: (item) => `pierde ${item}`,
+    gainedItem: (item) => `Objeto obtenido: ${item}`,
+    stats: { atk: 'Atq', def: 'Def', spa: 'AtEsp', spd: 'DefEsp', spe: 'Vel', accuracy: 'Prec', evasion: 'Eva' },
+    gimmicks: {
+      tera: 'Teracristalización',
+      mega: 'Megaevolución',
+      primal: 'Regresión primigenia',
+      zmove: 'Movimiento Z',
+      ultraburst: 'Ultraexplosión',
+      dynamax: 'Dinamax',
+    },
+    gigantamax: 'Gigamax',
+    transformedAs: (species) => `(como ${species})`,
+    markers: { opp: 'rival', protect: 'Protección', immune: 'inmune', illusion: 'Ilusión', wokeUp: 'se despertó', noLongerConfused: 'ya no está confuso', mvp: 'MVP' },
+    hits: { crit: 'crítico', SE: 'supereficaz', resisted: 'poco eficaz', OHKO: 'KO directo' },
+    statusLabels: { brn: 'QUE', par: 'PAR', frz: 'CON', psn: 'ENV', tox: 'GENV', slp: 'DOR' },
+    types: {
+      Fire: 'Fuego', Water: 'Agua', Electric: 'Eléctrico', Grass: 'Planta', Ice: 'Hielo', Fighting: 'Lucha',
+      Poison: 'Veneno', Ground: 'Tierra', Flying: 'Volador', Psychic: 'Psíquico', Bug: 'Bicho', Rock: 'Roca',
+      Ghost: 'Fantasma', Dragon: 'Dragón', Dark: 'Siniestro', Steel: 'Acero', Fairy: 'Hada', Stellar: 'Astral',
+    },
+    cured: (status) => `Curado de ${status}`,
+    activates: (effect) => `Activa ${effect}`,
+    fails: (reason) => `Falla${reason ? ` (${reason})` : ''}`,
+    misses: (target) => `Falla${target ? ` contra ${target}` : ''}`,
+    transformsInto: (species) => `Se transforma en ${species}`,
+    substituteDamaged: 'El sustituto recibe daño',
+    substituteFaded: 'El sustituto desaparece',
+    illusionBroken: 'Ilusión rota',
+    sideConditionEnded: (side, condition) => `Fin de efecto de lado: ${side} -> ${condition}`,
+    terrain: (terrain) => `Campo: ${terrain}`,
+    itemTo: (item, pokemon) => `${item} para ${pokemon}`,
+    teraType: (type) => `Teratipo ${type}`,
+    dynamaxTurns: (count) => `${count} turno${count === 1 ? '' : 's'}`,
+    turningPoints: 'Momentos clave',
+    endOfTurn: 'Fin del turno',
+    teamSheet: (player) => `Equipo — ${player}`,
+    statsTitle: (player) => `Estadísticas — ${player}`,
+    pokemonStats: {
+      dealt: (percent) => `${percent}% infligido`,
+      taken: (percent) => `${percent}% recibido`,
+      kos: (count) => `${count} KO`,
+      fainted: (count) => (count === 1 ? 'debilitado' : `debilitado ${count}×`),
+      turns: (count) => `${count} turno${count === 1 ? '' : 's'}`,
+      healed: (percent) => `${percent}% curado`,
+    },
+    wins: (winner, turn) => `${winner} gana en T${turn}`,
+    noWinner: (turn) => `Sin ganador en T${turn}`,
+    noResult: (turn) => `Sin resultado: la repetición termina en T${turn}`,
+    won: (turn) => `Victoria en T${turn}`,
+    lost: (turn) => `Derrota en T${turn}`,
+    notes: { timer: 'Tiempo agotado', forfeit: 'Rendición', allForfeited: 'Todos se rindieron', tie: 'Empate', incomplete: 'Incompleta' },
+    series: { game: (game) => `Partida ${game}`, notFound: 'no encontrada', guessed: 'ID de repetición supuesto', lineups: 'Inicios y selección', leads: 'Inicio', brought: 'Selección' },
+    ahead: (player) => `${player} por delante`,
+    fainted: (pokemon) => `${pokemon} se debilitó`,
+    moments: {
+      attack: (pokemon, move) => `${move} de ${pokemon}`,
+      ko: (pokemon, attacker, crit) => {
+        if (!attacker) return `${pokemon} cae debilitado`;
+        return crit ? `${attacker} asesta un golpe crítico y debilita a ${pokemon}` : `${attacker} debilita a ${pokemon}`;
+      },
+      miss: (attack, accuracy) => `${attack} falla (precisión ${accuracy}%)`,
+      fullyParalyzed: (pokemon) => `${pokemon} está paralizado y no puede moverse`,
+      frozen: (pokemon) => `${pokemon} está congelado`,
+      statuses: { brn: 'quemado', par: 'paralizado', frz: 'congelado', psn: 'envenenado', tox: 'gravemente envenenado', slp: 'dormido' },
+      statused: (pokemon, status, move) => `${move} deja a ${pokemon} ${status}`,
+      survives: (pokemon, hp) => `${pokemon} aguanta con ${hp}% de PS`,
+      multiKo: (fallen) => `KO ${fallen.length === 2 ? 'doble' : `×${fallen.length}`}: caen ${fallen.join(', ')}`,
+      takesLead: (player, forGood) => `${player} toma la ventaja${forGood ? ' definitivamente' : ''}`,
+      sweeps: (pokemon, count) => `${pokemon} barre a los últimos ${count} Pokémon`,
+      closesOut: (player, count) => `${player} cierra la partida con ${count} KO seguidos`,
+    },
+  },
+  fr: {
+    turn: (turn) => `T${turn}`,
+    lead: 'Début',
+    possessive: (pokemon, thing) => `${thing} de ${pokemon}`,
+    enters: 'entre',
+    faintedOnEntry: 'K.O. en entrant',
+    isAsleep: 'dort',
+    cantMove: (reason, move) => `ne peut pas agir (${reason}${move ? `, ${move}` : ''})`,
+    effectStarts: (effect) => `${effect} commence`,
+    effectEnds: (effect) => `${effect} se termine`,
+    lostItem: (item) => `perd ${item}`,
+    gainedItem: (item) => `Objet obtenu : ${item}`,
+    stats: { atk: 'Atq', def: 'Déf', spa: 'AtqSpé', spd: 'DéfSpé', spe: 'Vit', accuracy: 'Préc', evasion: 'Esq' },
+    gimmicks: {
+      tera: 'Téracristallisation',
+      mega: 'Méga-Évolution',
+      primal: 'Primo-Résurgence',
+      zmove: 'Capacité Z',
+      ultraburst: 'Ultra-Explosion',
+      dynamax: 'Dynamax',
+    },
+    gigantamax: 'Gigamax',
+    transformedAs: (species) => `(en ${species})`,
+    markers: { opp: 'adv.', protect: 'Abri', immune: 'immunisé', illusion: 'Illusion', wokeUp: 'réveillé', noLongerConfused: "n'est plus confus", mvp: 'MVP' },
+    hits: { crit: 'critique', SE: 'super efficace', resisted: 'peu efficace', OHKO: 'K.O. en un coup' },
+    statusLabels: { brn: 'BRN', par: 'PAR', frz: 'GEL', psn: 'PSN', tox: 'PSNG', slp: 'SOM' },
+    types: {
+      Fire: 'Feu', Water: 'Eau', Electric: 'Électrik', Grass: 'Plante', Ice: 'Glace', Fighting: 'Combat',
+      Ground: 'Sol', Flying: 'Vol', Psychic: 'Psy', Bug: 'Insecte', Rock: 'Roche', Ghost: 'Spectre',
+      Dark: 'Ténèbres', Steel: 'Acier', Fairy: 'Fée', Stellar: 'Stellaire',
+    },
+    cured: (status) => `Guéri : ${status}`,
+    activates: (effect) => `Active ${effect}`,
+    fails: (reason) => `Échoue${reason ? ` (${reason})` : ''}`,
+    misses: (target) => `Rate${target ? ` ${target}` : ''}`,
+    transformsInto: (species) => `Se transforme en ${species}`,
+    substituteDamaged: 'Le clone encaisse le coup',
+    substituteFaded: 'Le clone disparaît',
+    illusionBroken: 'Illusion dissipée',
+    sideConditionEnded: (side, condition) => `Fin d'effet de côté : ${side} -> ${condition}`,
+    terrain: (terrain) => `Champ : ${terrain}`,
+    itemTo: (item, pokemon) => `${item} à ${pokemon}`,
+    teraType: (type) => `Téracristal ${type}`,
+    dynamaxTurns: (count) => `${count} tour${count === 1 ? '' : 's'}`,
+    turningPoints: 'Moments clés',
+    endOfTurn: 'Fin du tour',
+    teamSheet: (player) => `Fiche d'équipe — ${player}`,
+    statsTitle: (player) => `Statistiques — ${player}`,
+    pokemonStats: {
+      dealt: (percent) => `${percent} % infligés`,
+      taken: (percent) => `${percent} % subis`,
+      kos: (count) => `${count} K.O.`,
+      fainted: (count) => (count === 1 ? 'K.O.' : `K.O. ${count}×`),
+      turns: (count) => `${count} tour${count === 1 ? '' : 's'}`,
+      healed: (percent) => `${percent} % soignés`,
+    },
+    wins: (winner, turn) => `${winner} gagne au T${turn}`,
+    noWinner: (turn) => `Pas de vainqueur au T${turn}`,
+    noResult: (turn) => `Pas de résultat : le replay s'arrête au T${turn}`,
+    won: (turn) => `Victoire au T${turn}`,
+    lost: (turn) => `Défaite au T${turn}`,
+    notes: { timer: 'Temps écoulé', forfeit: 'Abandon', allForfeited: 'Tous les joueurs ont abandonné', tie: 'Égalité', incomplete: 'Incomplet' },
+    series: { game: (game) => `Partie ${game}`, notFound: 'introuvable', guessed: 'ID de replay supposé', lineups: 'Débuts et sélection', leads: 'Début', brought: 'Sélection' },
+    ahead: (player) => `${player} en tête`,
+    fainted: (pokemon) => `${pokemon} K.O.`,
+    moments: {
+      attack: (pokemon, move) => `${move} de ${pokemon}`,
+      ko: (pokemon, attacker, crit) => {
+        if (!attacker) return `${pokemon} est K.O.`;
+        return crit ? `${attacker} met K.O. ${pokemon} sur un coup critique` : `${attacker} met K.O. ${pokemon}`;
+      },
+      miss: (attack, accuracy) => `${attack} rate sa cible (précision ${accuracy} %)`,
+      fullyParalyzed: (pokemon) => `${pokemon} est paralysé et ne peut pas attaquer`,
+      frozen: (pokemon) => `${pokemon} est gelé`,
+      statuses: { brn: 'brûlé', par: 'paralysé', frz: 'gelé', psn: 'empoisonné', tox: 'gravement empoisonné', slp: 'endormi' },
+      statused: (pokemon, status, move) => `${pokemon} est ${status} par ${move}`,
+      survives: (pokemon, hp) => `${pokemon} survit avec ${hp} % de PV`,
+      multiKo: (fallen) => `K.O. ${fallen.length === 2 ? 'double' : `×${fallen.length}`} : ${fallen.join(', ')} tombent`,
+      takesLead: (player, forGood) => `${player} prend l'avantage${forGood ? ' pour de bon' : ''}`,
+      sweeps: (pokemon, count) => `${pokemon} balaie les ${count} derniers Pokémon`,
+      closesOut: (player, count) => `${player} conclut avec ${count} K.O. d'affilée`,
+    },
+  },
+};
+
+/**
+ * Localized species, move and item names, keyed by English name (any spelling toId accepts).
+ * Kept offline so a summary never waits on a lookup; names missing from the table stay in English.
+ */
+export interface NameTable {
+  species?: Record<string, string>;
+  moves?: Record<string, string>;
+  items?: Record<string, string>;
+}
+
+export interface Translator {
+  locale: Locale;
+  messages: Messages;
+  species(name: string): string;
+  move(name: string): string;
+  item(name: string): string;
+  stat(id: string): string;
+  type(name: string): string;
+}
+
+function indexNames(names: Record<string, string> | undefined): Map<string, string> {
+  return new Map(Object.entries(names ?? {}).map(([name, translated]) => [toId(name), translated]));
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+export function createTranslator(locale: Locale = 'en', names: NameTable = {}): Translator {
+  const species = indexNames(names.species);
+  const moves = indexNames(names.moves);
+  const items = indexNames(names.items);
+  const messages = MESSAGES[locale];
+  return {
+    locale,
+    messages,
+    // Formes without their own entry fall back to the base species ("Ninetales-Alola" -> "Ninetales")
+    species: (name) => species.get(toId(name)) ?? species.get(toId(name.split('-')[0])) ?? name,
+    move: (name) => moves.get(toId(name)) ?? name,
+    item: (name) => items.get(toId(name)) ?? name,
+    stat: (id) => messages.stats[id] ?? id.toUpperCase(),
+    type: (name) => messages.types[name] ?? name,
+  };
+}
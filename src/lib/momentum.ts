@@ -0,0 +1,157 @@
+import type { GimmickKind } from './gimmicks';
+import { createTranslator } from './locale';
+import type { Translator } from './locale';
+import type { SideId } from './protocol';
+
+export interface SideMomentum {
+  /** Pokémon still standing, counting ones that haven't been sent out yet */
+  remaining: number;
+  /** Summed HP% of those Pokémon */
+  hp: number;
+}
+
+export interface MomentumPoint {
+  /** Turns completed; 0 is the board after leads come in */
+  turn: number;
+  sides: Partial<Record<SideId, SideMomentum>>;
+}
+
+export interface MomentumMarker {
+  kind: 'ko' | GimmickKind;
+  turn: number;
+  /** Side the Pokémon belongs to: the one that lost it for KOs, the one that used it for gimmicks */
+  side: SideId;
+  pokemon: string;
+}
+
+export interface MomentumData {
+  players: Partial<Record<SideId, string>>;
+  points: MomentumPoint[];
+  markers: MomentumMarker[];
+}
+
+/** Pokémon left plus their summed HP, counted in whole Pokémon (a healthy one scores 2). */
+export function getMomentumScore(side: SideMomentum | undefined): number {
+  return side ? side.remaining + side.hp / 100 : 0;
+}
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const MARGIN = { top: 32, right: 16, bottom: 32, left: 40 };
+const MAX_TICKS = 12;
+
+const SIDE_COLORS: Record<SideId, string> = {
+  p1: '#2563eb',
+  p2: '#dc2626',
+  p3: '#16a34a',
+  p4: '#d97706',
+};
+
+function escapeSvgText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function markerLabel(marker: MomentumMarker, t: Translator): string {
+  const pokemon = t.species(marker.pokemon);
+  const action = marker.kind === 'ko' ? t.messages.fainted(pokemon) : `${t.messages.gimmicks[marker.kind]}: ${pokemon}`;
+  return `${t.messages.turn(marker.turn)} — ${action}`;
+}
+
+interface Series {
+  color: string;
+  values: number[];
+}
+
+/**
+ * Renders the momentum as a standalone SVG: the score differential for two-player battles,
+ * one score line per side otherwise.
+ */
+export function renderMomentumChart(data: MomentumData, t: Translator = createTranslator()): string {
+  const sides = Object.keys(data.players) as SideId[];
+  const { points } = data;
+  const differential = sides.length === 2;
+  const series: Series[] = differential
+    ? [{ color: '#374151', values: points.map((point) => getMomentumScore(point.sides[sides[0]]) - getMomentumScore(point.sides[sides[1]])) }]
+    : sides.map((side) => ({ color: SIDE_COLORS[side], values: points.map((point) => getMomentumScore(point.sides[side])) }));
+
+  const peak = Math.max(1, ...series.flatMap((line) => line.values.map(Math.abs)));
+  const yMax = Math.ceil(peak);
+  const yMin = differential ? -yMax : 0;
+  const lastTurn = Math.max(1, ...points.map((point) => point.turn));
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const x = (turn: number) => round(MARGIN.left + (turn / lastTurn) * plotWidth);
+  const y = (value: number) => round(MARGIN.top + ((yMax - value) / (yMax - yMin)) * plotHeight);
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}" font-family="sans-serif" font-size="11">`,
+    `<rect width="${WIDTH}" height="${HEIGHT}" fill="#ffffff"/>`,
+  ];
+
+  // Grid lines are labelled in whole Pokémon
+  const yStep = Math.ceil((yMax - yMin) / 8);
+  const gridValues: number[] = [];
+  for (let value = 0; value <= yMax; value += yStep) {
+    gridValues.push(value);
+    if (differential && value) gridValues.push(-value);
+  }
+  for (const value of gridValues) {
+    const label = differential && value > 0 ? `+${value}` : String(value);
+    const stroke = differential && value === 0 ? '#6b7280' : '#e5e7eb';
+    parts.push(`<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(value)}" y2="${y(value)}" stroke="${stroke}"/>`);
+    parts.push(`<text x="${MARGIN.left - 6}" y="${y(value) + 4}" text-anchor="end" fill="#6b7280">${label}</text>`);
+  }
+
+  const tickStep = Math.ceil(lastTurn / MAX_TICKS);
+  for (let turn = 0; turn <= lastTurn; turn += tickStep) {
+    parts.push(`<text x="${x(turn)}" y="${HEIGHT - MARGIN.bottom + 16}" text-anchor="middle" fill="#6b7280">${escapeSvgText(turn ? t.messages.turn(turn) : t.messages.lead)}</text>`);
+  }
+
+  if (differential) {
+    const [first, second] = sides.map((side) => data.players[side] ?? side);
+    parts.push(`<text x="${MARGIN.left + 4}" y="${MARGIN.top - 8}" fill="${SIDE_COLORS[sides[0]]}">▲ ${escapeSvgText(t.messages.ahead(first))}</text>`);
+    parts.push(`<text x="${MARGIN.left + 4}" y="${HEIGHT - 4}" fill="${SIDE_COLORS[sides[1]]}">▼ ${escapeSvgText(t.messages.ahead(second))}</text>`);
+  } else {
+    let legendX = MARGIN.left + 4;
+    for (const side of sides) {
+      const name = escapeSvgText(data.players[side] ?? side);
+      parts.push(`<text x="${legendX}" y="${MARGIN.top - 8}" fill="${SIDE_COLORS[side]}">■ ${name}</text>`);
+      legendX += 16 + name.length * 7;
+    }
+  }
+
+  for (const line of series) {
+    const coords = points.map((point, index) => `${x(point.turn)},${y(line.values[index])}`).join(' ');
+    if (differential && points.length) {
+      const baseline = `${x(points[points.length - 1].turn)},${y(0)} ${x(points[0].turn)},${y(0)}`;
+      parts.push(`<polygon points="${coords} ${baseline}" fill="${line.color}" fill-opacity="0.12"/>`);
+    }
+    parts.push(`<polyline points="${coords}" fill="none" stroke="${line.color}" stroke-width="2"/>`);
+  }
+
+  // Markers sit at the end of the turn they happened in
+  const valueAt = (side: SideId, turn: number): number => {
+    const index = points.findIndex((point) => point.turn >= turn);
+    const line = differential ? series[0] : series[sides.indexOf(side)];
+    return line?.values[index === -1 ? points.length - 1 : index] ?? 0;
+  };
+  for (const marker of data.markers) {
+    const title = `<title>${escapeSvgText(markerLabel(marker, t))}</title>`;
+    const color = SIDE_COLORS[marker.side];
+    const cx = x(Math.min(marker.turn, lastTurn));
+    if (marker.kind === 'ko') {
+      const cy = y(valueAt(marker.side, marker.turn));
+      parts.push(`<circle cx="${cx}" cy="${cy}" r="4" fill="#ffffff" stroke="${color}" stroke-width="2">${title}</circle>`);
+    } else {
+      const top = MARGIN.top + 6;
+      parts.push(`<polygon points="${cx},${top - 5} ${cx + 5},${top} ${cx},${top + 5} ${cx - 5},${top}" fill="${color}">${title}</polygon>`);
+    }
+  }
+
+  parts.push('</svg>');
+  return parts.join('');
+}
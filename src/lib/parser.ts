@@ -1,30 +1,102 @@
-import { renderPokemonIcon, DEFAULT_ICON_ID } from './pokemonIcons';
-import { formatHPStatus, parseHPStatus, prettifyMove, simplifyBracketText, toId, toIconId } from './utils';
+import { DEFAULT_ICON_ID } from './pokemonIcons';
+import { DYNAMAX_TURNS, getMaxMoveName, getZMoveName } from './gimmicks';
+import type { GimmickKind } from './gimmicks';
+import { createTranslator } from './locale';
+import type { Locale, Messages, NameTable, Translator } from './locale';
+import { ALL_SIDES, parseBattleEvents, resolveSide } from './protocol';
+import type { BattleEvent, PokemonDetails, ProtocolExtras, SideId } from './protocol';
+import { getFieldDuration, getSideConditionDuration, getWeatherDuration } from './snapshots';
+import type { ActivePokemonSnapshot, BenchPokemonSnapshot, EffectSnapshot, TurnSnapshot } from './snapshots';
+import { getReplayId, httpReplayFetcher } from './replays';
+import type { ReplayFetcher, ReplayJSON } from './replays';
+import { formatPokePaste } from './teamSheet';
+import type { RevealedPokemon, TeamSheet } from './teamSheet';
+import { createPokemonStats, formatPokemonStats, pickMvp } from './stats';
+import { renderMomentumChart } from './momentum';
+import { SLIVER_HP, findTurningPoints } from './turningPoints';
+import type { KeyMoment, TurningPoint } from './turningPoints';
+import type { MomentumData, MomentumMarker, MomentumPoint, SideMomentum } from './momentum';
+import type { PokemonBattleStats } from './stats';
+import { createDiscordRenderer, createMarkdownRenderer, htmlRenderer, renderDetailText, renderMatchLine, textRenderer } from './renderers';
+import { extractMarkers } from './summaryNodes';
+import type { ActionNode, DetailNode, DetailTag, HeadlineNode, PokemonLabel, ResidualLine, SummaryDocument, TitledList, TurnNode } from './summaryNodes';
+import { formatHPStatus, getHPPercent, prettifyMove, toId, toIconId } from './utils';
+import type { HPStatus } from './utils';
+
+export { parseBattleEvents } from './protocol';
+export type { BattleEvent, BattleEventType, EffectRef, PokemonDetails, PokemonRef, ProtocolExtras, SideId } from './protocol';
+export type { ActivePokemonSnapshot, BenchPokemonSnapshot, EffectSnapshot, SideSnapshot, TurnSnapshot } from './snapshots';
+export { formatPokePaste } from './teamSheet';
+export { formatReplayRef, getReplayId, httpReplayFetcher, parseReplayInput, parseReplayRef, readReplayObject } from './replays';
+export type { ReplayFetcher, ReplayJSON, ReplayRef } from './replays';
+export type { RevealedPokemon, TeamSheet } from './teamSheet';
+export type { PokemonBattleStats } from './stats';
+export { renderMomentumChart } from './momentum';
+export type { MomentumData, MomentumMarker, MomentumPoint, SideMomentum } from './momentum';
+export type { KeyMoment, TurningPoint } from './turningPoints';
+export { LOCALES, MESSAGES, createTranslator, isLocale } from './locale';
+export type { Locale, Messages, NameTable, Translator } from './locale';
+export { createDiscordRenderer, createMarkdownRenderer, htmlRenderer, textRenderer } from './renderers';
+export type { SummaryRenderer } from './renderers';
+export type { ActionNode, DetailNode, DetailTag, HeadlineNode, PokemonLabel, ResidualLine, SummaryDocument, TurnNode } from './summaryNodes';
+
+export interface RenderOptions {
+  /** Prefix Pokémon in the Markdown output with image syntax for their sprites */
+  markdownIcons?: boolean;
+  /** Custom emoji to show Pokémon with in the Discord output, keyed by species ("Gholdengo": "<:gholdengo:123>") */
+  discordEmoji?: Record<string, string>;
+  /** How much of each turn to show; defaults to "full" */
+  verbosity?: Verbosity;
+  /** Language of the summary; defaults to "en" */
+  locale?: Locale;
+  /** Species, move and item names for `locale`; names it doesn't cover stay in English */
+  names?: NameTable;
+  /** Whose side the summary is told from: "p1"-"p4" or a player name; defaults to p1 */
+  perspective?: string;
+  /** Prepended to the html turn ids, so several summaries can share a page */
+  anchorPrefix?: string;
+}
+
+/**
+ * "full" keeps every line, "standard" folds end-of-turn chip damage into one line per side,
+ * "highlights" keeps only KOs, gimmicks, switches and field changes.
+ */
+export type Verbosity = "full" | "standard" | "highlights";
 
-type DualFormat = { html: string; text: string };
+type GameType = "singles" | "doubles" | "triples" | "freeforall" | "multi";
 
 interface PlayerMap {
   p1: string;
   p2: string;
+  p3?: string;
+  p4?: string;
 }
 
 interface PokemonState {
   ref: string;
-  side: "p1" | "p2";
+  side: SideId;
   nickname?: string;
   species: string;
   iconId: string;
   lastDisplayHP?: string;
+  hpPercent?: number;
   status?: string;
   fainted?: boolean;
+  boosts: Record<string, number>;
+  volatiles: Set<string>;
+  // Species as sent out, kept through forme changes so the bench can be matched to the team
+  teamSpecies?: string;
+  gigantamax?: boolean;
+  transformedInto?: { species: string; iconId: string };
+  // Summary entries that reference this Pokémon since it entered, rewritten if an Illusion breaks
+  sinceSwitchIn: { actions: ActionSummary[]; leadEntry?: LeadEntry; revealedMoves: string[] };
 }
 
 type ActionType = "move" | "switch" | "cant" | "note";
 
-type DetailEntry = DualFormat;
-
-interface LeadEntry extends DualFormat {
-  side: 'p1' | 'p2';
+interface LeadEntry {
+  side: SideId;
+  pokemon: PokemonLabel;
 }
 
 interface ActionSummary {
@@ -33,12 +105,16 @@ interface ActionSummary {
   actorName?: string;
   actorSpecies?: string;
   actorIconId?: string;
-  side?: "p1" | "p2";
+  actorTransformSpecies?: string;
+  actorTransformIconId?: string;
+  side?: SideId;
   verb: string;
+  // The move as logged; `verb` is localized and picks up self stat changes ("Swords Dance, +2 ATK")
+  move?: string;
   targetRefs?: string[];
   targetNames?: string[];
   targetSpecies?: string[];
-  details: DetailEntry[];
+  details: DetailNode[];
   fromIconId?: string;
   fromName?: string;
   isSpread?: boolean;
@@ -48,39 +124,150 @@ interface TurnSummary {
   turn: number;
   label?: string;
   headerEvents: string[];
+  gimmickEvents: string[];
   actions: ActionSummary[];
-  endEvents: DetailEntry[];
+  endEvents: DetailNode[];
   leadEntries: LeadEntry[];
   replacementSwitches: ActionSummary[];
 }
 
 interface ParseContext {
   players: PlayerMap;
+  gameType: GameType;
+  sides: SideId[];
   formatName?: string;
   turns: TurnSummary[];
   currentTurn: TurnSummary;
   currentAction: ActionSummary | null;
   pokemon: Map<string, PokemonState>;
-  teams: { p1: string[]; p2: string[]; p1Set: Set<string>; p2Set: Set<string> };
+  teams: Record<SideId, string[]>;
+  teamSets: Record<SideId, Set<string>>;
   winner?: string;
   loser?: string;
-  resultNote?: string;
+  tie: boolean;
+  forfeits: string[];
+  timeouts: string[];
   leadPhase: boolean;
   faintedThisTurn: Set<string>;
   currentWeather?: string;
-  sideConditions: { p1: Set<string>; p2: Set<string> };
+  weatherExpiresAfter?: number;
+  fieldEffects: Map<string, TrackedEffect>;
+  sideConditions: Record<SideId, Map<string, TrackedEffect>>;
+  roster: Record<SideId, Map<string, BenchPokemonSnapshot>>;
+  snapshots: TurnSnapshot[];
+  teamSizes: Partial<Record<SideId, number>>;
+  // How many of the previewed Pokémon each side brings, when the format picks a subset
+  pickCount?: number;
+  knockouts: Array<{ side: SideId; pokemon: string; turn: number }>;
+  sheets: Record<SideId, RevealedPokemon[]>;
+  openSheets: Partial<Record<SideId, RevealedPokemon[]>>;
+  stats: Record<SideId, Map<string, PokemonBattleStats>>;
+  // Who to credit for indirect damage: hazards and weather by effect, status and volatiles by victim
+  effectSources: Map<string, PokemonBattleStats>;
+  statusSources: Map<PokemonBattleStats, PokemonBattleStats>;
+  volatileSources: Map<PokemonBattleStats, Map<string, PokemonBattleStats>>;
+  lastDamageSource: Map<PokemonBattleStats, PokemonBattleStats | undefined>;
+  moments: KeyMoment[];
+  // Latest damage to each Pokémon, to tell which move (and whether a crit) finished it
+  lastDamage: Map<string, { action: ActionSummary | null; attackerRef?: string; crit: boolean }>;
+  // Sheet entries holding an item they were given (Trick, Thief...) rather than started with
+  receivedItems: Set<RevealedPokemon>;
   pendingAbilityBoost?: { ref: string; ability: string; boosts: Array<{ ref: string; stat: string; amount: number; direction: string }> };
   recentMoves: Array<{ ref: string; move: string }>;
   pendingSwitchAbility?: { ref: string; ability: string; effect: string };
-  activePositions: { p1a?: string; p1b?: string; p2a?: string; p2b?: string };
+  activePositions: Record<string, string>;
   pendingFieldEnds: Array<{ effect: string }>;
   pendingProtects: Set<string>;
   pendingTrickItems: Array<{ ref: string; item: string }>;
   pendingWakeups: Set<string>;
+  pendingConfusionEnds: Set<string>;
+  pendingHitMarkers: Map<string, string[]>;
+  lastHit?: { ref: string; change: string; markers: string[]; extras: string[]; detail: DetailNode };
+  gimmicks: GimmickUse[];
+  pendingZPower: Set<string>;
+  t: Translator;
+  // Set when the caller picked a side; p1 is "ours" otherwise
+  perspective?: SideId;
+}
+
+interface TrackedEffect {
+  name: string;
+  // Last turn the effect is active for, when its duration is known
+  expiresAfter?: number;
+  layers: number;
+}
+
+export type ResultKind = "win" | "tie" | "forfeit" | "timer" | "incomplete";
+
+export interface BattleResult {
+  kind: ResultKind;
+  turn: number;
+  winner?: string;
+  loser?: string;
+  note?: string;
+}
+
+export interface GimmickUse {
+  kind: GimmickKind;
+  side: SideId;
+  pokemon: string;
+  turn: number;
+  detail?: string;
+}
+
+function createSideRecord<T>(factory: () => T): Record<SideId, T> {
+  return { p1: factory(), p2: factory(), p3: factory(), p4: factory() };
+}
+
+function normalizeGameType(value: string): GameType {
+  switch (toId(value)) {
+    case 'singles':
+    case 'triples':
+    case 'freeforall':
+    case 'multi':
+      return toId(value) as GameType;
+    default:
+      return 'doubles';
+  }
+}
+
+function sidesForGameType(gameType: GameType): SideId[] {
+  return gameType === 'freeforall' || gameType === 'multi' ? [...ALL_SIDES] : ['p1', 'p2'];
+}
+
+function registerSide(ctx: ParseContext, side: SideId) {
+  if (ctx.sides.includes(side)) return;
+  ctx.sides = ALL_SIDES.filter(candidate => candidate === side || ctx.sides.includes(candidate));
+}
+
+function getPlayerName(ctx: ParseContext, side: SideId): string {
+  return ctx.players[side] || `Player ${side.slice(1)}`;
+}
+
+/** Who sits where: the replay's player list, filled in from the log's |player| lines (pasted logs have no list). */
+function readSeats(data: ReplayJSON): Partial<Record<SideId, string>> {
+  const seats: Partial<Record<SideId, string>> = { p1: undefined, p2: undefined };
+  data.players?.slice(0, ALL_SIDES.length).forEach((name, index) => {
+    if (name) seats[ALL_SIDES[index]] = name;
+  });
+  for (const event of parseBattleEvents(data.log)) {
+    if (event.type === 'player' && ALL_SIDES.includes(event.side)) seats[event.side] ??= event.name || undefined;
+  }
+  return seats;
 }
 
-function resolveSide(ref: string): 'p1' | 'p2' {
-  return ref.startsWith('p2') ? 'p2' : 'p1';
+/** The side a perspective ("p2" or a player's name) refers to, or undefined when it matches nobody in the replay. */
+export function findPlayerSide(data: ReplayJSON, perspective: string): SideId | undefined {
+  const seats = readSeats(data);
+  const sides = ALL_SIDES.filter((side) => side in seats);
+  return sides.find((side) => side === perspective.trim().toLowerCase()) ??
+    sides.find((side) => seats[side] && toId(seats[side]) === toId(perspective));
+}
+
+/** The sides in display order: ours first, then the rest in seat order. */
+function viewSides(ctx: ParseContext): SideId[] {
+  const ours = ctx.perspective ?? "p1";
+  return [ours, ...ctx.sides.filter((side) => side !== ours)];
 }
 
 function formatHPPercentageOnly(hpStatus: HPStatus): string {
@@ -92,13 +279,6 @@ function formatHPPercentageOnly(hpStatus: HPStatus): string {
   return hpStatus.raw;
 }
 
-function parseExtras(parts: string[], startIndex: number): string[] {
-  return parts
-    .slice(startIndex)
-    .map(simplifyBracketText)
-    .filter(Boolean);
-}
-
 function formatExtras(extras: string[]): string {
   const filtered = extras.filter(Boolean);
   return filtered.length ? ` (${filtered.join('; ')})` : '';
@@ -130,21 +310,93 @@ function normalizeFieldName(field: string): string {
   return normalized;
 }
 
-function hasSpeciesOnBothSides(ctx: ParseContext, species: string): boolean {
-  // Check if species exists in both teams (not just actively battling)
-  return ctx.teams.p1.includes(species) && ctx.teams.p2.includes(species);
+function normalizeVolatileName(effect: string): string {
+  // Remove "move: " / "ability: " / "item: " prefixes if present
+  const normalized = effect.replace(/^(move|ability|item):\s*/i, '');
+  const perishMatch = normalized.match(/^perish(\d)$/i);
+  if (perishMatch) return `Perish ${perishMatch[1]}`;
+  switch (toId(normalized)) {
+    case 'confusion':
+      return 'Confusion';
+    case 'typechange':
+      return 'Type change';
+    case 'typeadd':
+      return 'Type added';
+    case 'stockpile1':
+    case 'stockpile2':
+    case 'stockpile3':
+      return 'Stockpile';
+    default:
+      return normalized;
+  }
+}
+
+function isEndOfTurnVolatile(effect: string): boolean {
+  // Volatiles that expire during the residual phase
+  const effectId = toId(normalizeVolatileName(effect));
+  return (
+    effectId === 'taunt' ||
+    effectId === 'encore' ||
+    effectId === 'disable' ||
+    effectId === 'healblock' ||
+    effectId === 'embargo' ||
+    effectId === 'magnetrise' ||
+    effectId === 'telekinesis' ||
+    effectId === 'throatchop' ||
+    effectId === 'slowstart' ||
+    effectId === 'yawn' ||
+    effectId === 'dynamax'
+  );
+}
+
+function hasSpeciesOnOtherSide(ctx: ParseContext, side: SideId, species: string): boolean {
+  // Check if species exists in another team (not just actively battling)
+  return ctx.sides.some(other => other !== side && ctx.teams[other].includes(species));
+}
+
+/** Nickname if the Pokémon has one, otherwise the species in the summary's language. */
+function pokemonName(ctx: ParseContext, mon: PokemonState): string {
+  const name = mon.nickname || mon.species;
+  // Pokémon without a nickname go by their species (or base species, for formes)
+  return mon.species.startsWith(name) ? ctx.t.species(name) : name;
+}
+
+function markerText(ctx: ParseContext, marker: keyof Messages['markers']): string {
+  return `(${ctx.t.messages.markers[marker]})`;
+}
+
+function withMarker(ctx: ParseContext, name: string, marker: keyof Messages['markers']): string {
+  return `${name} ${markerText(ctx, marker)}`;
+}
+
+/** Side tags like " (opp)" or " (p3)", which say whose Pokémon it is rather than what happened to it. */
+function sideTags(ctx: ParseContext): RegExp {
+  const opp = ctx.t.messages.markers.opp.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\s*\\((${opp}|p[1-4])\\)`, 'g');
+}
+
+/** Adds a marker to an already-announced target of the current action ("Garchomp (Protect)"). */
+function markTarget(ctx: ParseContext, ref: string, marker: keyof Messages['markers']) {
+  const targetIdx = ctx.currentAction?.targetRefs?.indexOf(ref) ?? -1;
+  const targetNames = ctx.currentAction?.targetNames;
+  if (targetIdx === -1 || !targetNames) return;
+  const currentName = targetNames[targetIdx];
+  if (currentName && !currentName.includes(markerText(ctx, marker))) {
+    targetNames[targetIdx] = withMarker(ctx, currentName, marker);
+  }
 }
 
 function getPokemonDisplayName(ctx: ParseContext, ref: string): string {
   const mon = ctx.pokemon.get(ref);
   if (!mon) return ref;
 
-  const baseName = mon.nickname || mon.species;
+  const baseName = pokemonName(ctx, mon);
   const side = resolveSide(ref);
 
-  // Check if there's a duplicate species on the opposite side
-  if (side === 'p2' && hasSpeciesOnBothSides(ctx, mon.species)) {
-    return `${baseName} (opp)`;
+  // Check if there's a duplicate species on another side; with more than two
+  // players "opp" is ambiguous, so tag the side instead
+  if (side !== (ctx.perspective ?? 'p1') && hasSpeciesOnOtherSide(ctx, side, mon.species)) {
+    return ctx.sides.length > 2 ? `${baseName} (${side})` : withMarker(ctx, baseName, 'opp');
   }
 
   return baseName;
@@ -154,18 +406,40 @@ function createInitialContext(): ParseContext {
   const leadTurn = createTurn(0, "Lead");
   return {
     players: { p1: "Player 1", p2: "Player 2" },
+    gameType: "doubles",
+    sides: ["p1", "p2"],
     turns: [leadTurn],
     currentTurn: leadTurn,
     currentAction: null,
     pokemon: new Map(),
-    teams: { p1: [], p2: [], p1Set: new Set(), p2Set: new Set() },
+    teams: createSideRecord<string[]>(() => []),
+    teamSets: createSideRecord<Set<string>>(() => new Set()),
     winner: undefined,
     loser: undefined,
-    resultNote: undefined,
+    tie: false,
+    forfeits: [],
+    timeouts: [],
     leadPhase: true,
     faintedThisTurn: new Set(),
     currentWeather: undefined,
-    sideConditions: { p1: new Set(), p2: new Set() },
+    weatherExpiresAfter: undefined,
+    fieldEffects: new Map(),
+    sideConditions: createSideRecord<Map<string, TrackedEffect>>(() => new Map()),
+    roster: createSideRecord<Map<string, BenchPokemonSnapshot>>(() => new Map()),
+    snapshots: [],
+    teamSizes: {},
+    pickCount: undefined,
+    knockouts: [],
+    sheets: createSideRecord<RevealedPokemon[]>(() => []),
+    openSheets: {},
+    stats: createSideRecord<Map<string, PokemonBattleStats>>(() => new Map()),
+    effectSources: new Map(),
+    statusSources: new Map(),
+    volatileSources: new Map(),
+    lastDamageSource: new Map(),
+    moments: [],
+    lastDamage: new Map(),
+    receivedItems: new Set(),
     recentMoves: [],
     pendingSwitchAbility: undefined,
     activePositions: {},
@@ -173,6 +447,12 @@ function createInitialContext(): ParseContext {
     pendingProtects: new Set(),
     pendingTrickItems: [],
     pendingWakeups: new Set(),
+    pendingConfusionEnds: new Set(),
+    pendingHitMarkers: new Map(),
+    lastHit: undefined,
+    gimmicks: [],
+    pendingZPower: new Set(),
+    t: createTranslator(),
   };
 }
 
@@ -181,6 +461,7 @@ function createTurn(turn: number, label?: string): TurnSummary {
     turn,
     label,
     headerEvents: [],
+    gimmickEvents: [],
     actions: [],
     endEvents: [],
     leadEntries: [],
@@ -201,72 +482,521 @@ function ensureCurrentTurn(ctx: ParseContext, turnNumber: number) {
   ctx.faintedThisTurn.clear();
   ctx.recentMoves = [];
   ctx.pendingProtects.clear();
+  ctx.pendingHitMarkers.clear();
+  ctx.lastHit = undefined;
 }
 
-function addSpecies(ctx: ParseContext, side: 'p1' | 'p2', species: string) {
+function addSpecies(ctx: ParseContext, side: SideId, species: string) {
   const normalized = species.trim();
   const id = toId(normalized);
   if (!id) return;
-  const set = side === 'p1' ? ctx.teams.p1Set : ctx.teams.p2Set;
+  registerSide(ctx, side);
+  const set = ctx.teamSets[side];
   if (set.has(normalized)) return;
   set.add(normalized);
   ctx.teams[side].push(normalized);
 }
 
-function parsePokemonRef(raw: string): { ref: string; nickname?: string; side: 'p1' | 'p2' } {
-  const match = raw.match(/^([a-z0-9]+):\s*(.+)$/i);
-  if (!match) {
-    const ref = raw.trim();
-    const side = resolveSide(ref);
-    return { ref, nickname: raw.trim(), side };
-  }
-  const [, ref, nickname] = match;
-  const side = resolveSide(ref);
-  return { ref, nickname, side };
-}
-
 function getOrCreatePokemon(
   ctx: ParseContext,
   ref: string,
-  side: 'p1' | 'p2',
+  side: SideId,
   species = 'Unknown',
 ): PokemonState {
   const existing = ctx.pokemon.get(ref);
   if (existing) return existing;
   const iconId = toIconId(species) || DEFAULT_ICON_ID;
-  const created: PokemonState = { ref, side, species, iconId };
+  const created: PokemonState = { ref, side, species, iconId, boosts: {}, volatiles: new Set(), sinceSwitchIn: { actions: [], revealedMoves: [] } };
   ctx.pokemon.set(ref, created);
   return created;
 }
 
-function updatePokemonSpecies(ctx: ParseContext, ref: string, species: string) {
+function updatePokemonSpecies(ctx: ParseContext, ref: string, species: string, addToTeam = true) {
   const side = resolveSide(ref);
   const mon = getOrCreatePokemon(ctx, ref, side, species);
   mon.species = species;
   mon.iconId = toIconId(species) || mon.iconId;
-  addSpecies(ctx, side, species);
+  if (addToTeam) addSpecies(ctx, side, species);
 }
 
-function setCurrentAction(ctx: ParseContext, action: ActionSummary) {
-  ctx.currentTurn.actions.push(action);
-  ctx.currentAction = action;
+function setBoost(mon: PokemonState, stat: string, stage: number) {
+  const clamped = Math.max(-6, Math.min(6, stage));
+  if (clamped) {
+    mon.boosts[stat] = clamped;
+  } else {
+    delete mon.boosts[stat];
+  }
+}
+
+function effectExpiry(ctx: ParseContext, duration: number | undefined): number | undefined {
+  if (duration === undefined) return undefined;
+  // Effects set up before turn 1 (lead abilities) count down from turn 1
+  return Math.max(ctx.currentTurn.turn, 1) + duration - 1;
+}
+
+function recordBenchState(ctx: ParseContext, mon: PokemonState) {
+  if (!mon.teamSpecies) return;
+  ctx.roster[mon.side].set(toId(mon.teamSpecies), {
+    species: mon.teamSpecies,
+    revealed: true,
+    hp: mon.hpPercent,
+    status: mon.status?.toLowerCase(),
+    fainted: Boolean(mon.fainted),
+  });
 }
 
+function snapshotEffect(effect: TrackedEffect, turn: number): EffectSnapshot {
+  const turnsLeft = effect.expiresAfter !== undefined ? effect.expiresAfter - turn + 1 : undefined;
+  return {
+    name: effect.name,
+    // Still up past its base duration means an extender (Light Clay, Damp Rock...) was in play
+    turnsLeft: turnsLeft !== undefined && turnsLeft > 0 ? turnsLeft : undefined,
+    layers: effect.layers > 1 ? effect.layers : undefined,
+  };
+}
+
+function takeSnapshot(ctx: ParseContext, turn: number): TurnSnapshot {
+  const sides: TurnSnapshot["sides"] = {};
+  for (const side of ctx.sides) {
+    const active: ActivePokemonSnapshot[] = [];
+    const activeIds = new Set<string>();
+    const slots = Object.keys(ctx.activePositions).filter(slot => resolveSide(slot) === side).sort();
+    for (const slot of slots) {
+      const mon = ctx.pokemon.get(ctx.activePositions[slot]);
+      if (!mon) continue;
+      // Fainted Pokémon leave their slot empty and are listed with the bench
+      recordBenchState(ctx, mon);
+      if (mon.fainted) continue;
+      activeIds.add(toId(mon.teamSpecies || mon.species));
+      active.push({
+        slot,
+        species: mon.species,
+        nickname: mon.nickname,
+        hp: mon.hpPercent,
+        status: mon.status?.toLowerCase(),
+        boosts: { ...mon.boosts },
+        volatiles: [...mon.volatiles],
+      });
+    }
+
+    const team = ctx.teams[side];
+    const bench: BenchPokemonSnapshot[] = [];
+    for (const species of team) {
+      // Team preview hides some formes ("Urshifu-*"); drop the placeholder once the forme is revealed
+      if (species.endsWith('-*') && team.some(other => other !== species && other.startsWith(species.slice(0, -1)))) continue;
+      const id = toId(species);
+      if (activeIds.has(id)) continue;
+      bench.push(ctx.roster[side].get(id) ?? { species, revealed: false, fainted: false });
+    }
 
-function makeDetail(text: string, html?: string): DetailEntry {
-  if (!text && !html) {
-    return { text: "", html: "" };
+    sides[side] = {
+      player: getPlayerName(ctx, side),
+      active,
+      bench,
+      conditions: [...ctx.sideConditions[side].values()].map(effect => snapshotEffect(effect, turn)),
+    };
   }
-  const safeHtml = html ?? text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;");
+
+  const weather = ctx.currentWeather
+    ? snapshotEffect({ name: normalizeWeatherName(ctx.currentWeather), expiresAfter: ctx.weatherExpiresAfter, layers: 1 }, turn)
+    : undefined;
   return {
-    text,
-    html: safeHtml,
+    turn,
+    weather,
+    fields: [...ctx.fieldEffects.values()].map(effect => snapshotEffect(effect, turn)),
+    sides,
   };
 }
 
+function getSheetEntry(ctx: ParseContext, side: SideId, species: string): RevealedPokemon {
+  const sheet = ctx.sheets[side];
+  const id = toId(species);
+  // Team preview shows some formes as "Urshifu-*"; the placeholder becomes the revealed forme
+  const entry = sheet.find(candidate => toId(candidate.species) === id) ??
+    sheet.find(candidate => candidate.species.endsWith('-*') && species.startsWith(candidate.species.slice(0, -1)));
+  if (!entry) {
+    const created: RevealedPokemon = { species, moves: [] };
+    sheet.push(created);
+    return created;
+  }
+  if (entry.species.endsWith('-*')) entry.species = species;
+  return entry;
+}
+
+function sheetEntryFor(ctx: ParseContext, ref: string): RevealedPokemon | undefined {
+  const mon = ctx.pokemon.get(ref);
+  return mon?.teamSpecies ? getSheetEntry(ctx, mon.side, mon.teamSpecies) : undefined;
+}
+
+function applySheetDetails(entry: RevealedPokemon, details: PokemonDetails) {
+  if (details.level) entry.level = details.level;
+  if (details.gender) entry.gender = details.gender;
+  if (details.teraType) entry.teraType = details.teraType;
+}
+
+function revealAbility(ctx: ParseContext, ref: string, ability: string) {
+  // A transformed Pokémon shows its target's ability
+  if (ctx.pokemon.get(ref)?.transformedInto) return;
+  const entry = sheetEntryFor(ctx, ref);
+  if (entry && !entry.ability) entry.ability = ability;
+}
+
+function revealItem(ctx: ParseContext, ref: string, item: string) {
+  const entry = sheetEntryFor(ctx, ref);
+  if (entry && !entry.item && !ctx.receivedItems.has(entry)) entry.item = item;
+}
+
+/** Records what an event reveals about a Pokémon's set; runs before the event is rendered. */
+function collectTeamSheet(ctx: ParseContext, event: BattleEvent) {
+  // "[from] ability:" extras name the ability of [of], or of the line's own Pokémon
+  if (event.type !== "-ability" && 'extras' in event && event.extras.from?.kind === 'ability') {
+    const holder = event.extras.of ?? ('pokemon' in event ? event.pokemon : undefined);
+    if (holder) revealAbility(ctx, holder.ref, event.extras.from.name);
+  }
+
+  switch (event.type) {
+    case "poke": {
+      applySheetDetails(getSheetEntry(ctx, event.side, event.details.species), event.details);
+      break;
+    }
+    case "switch":
+    case "drag":
+    case "replace": {
+      const entry = getSheetEntry(ctx, event.pokemon.side, event.details.species);
+      applySheetDetails(entry, event.details);
+      if (event.pokemon.nickname) entry.nickname = event.pokemon.nickname;
+      if (event.type !== "replace") break;
+      if (!entry.ability) entry.ability = 'Illusion';
+
+      // Moves used under an Illusion belong to the Pokémon behind it
+      const mon = ctx.pokemon.get(event.pokemon.ref);
+      const disguise = sheetEntryFor(ctx, event.pokemon.ref);
+      if (!mon || !disguise || disguise === entry) break;
+      for (const move of mon.sinceSwitchIn.revealedMoves) {
+        disguise.moves = disguise.moves.filter(known => known !== move);
+        if (!entry.moves.includes(move)) entry.moves.push(move);
+      }
+      mon.sinceSwitchIn.revealedMoves = [];
+      break;
+    }
+    case "move": {
+      const { ref } = event.pokemon;
+      const mon = ctx.pokemon.get(ref);
+      // Called moves, copied movesets and Max Moves don't show the moveset itself
+      if (!mon || mon.transformedInto || mon.volatiles.has('Dynamax') || event.extras.from) break;
+      // Damaging Z-Moves are logged under their Z-Move name
+      if (ctx.pendingZPower.has(ref) && !('zeffect' in event.extras.tags)) break;
+      const move = prettifyMove(event.move);
+      const entry = sheetEntryFor(ctx, ref);
+      if (!entry || move === 'Struggle' || entry.moves.includes(move)) break;
+      entry.moves.push(move);
+      mon.sinceSwitchIn.revealedMoves.push(move);
+      break;
+    }
+    case "-ability": {
+      const { from, of: source } = event.extras;
+      // Skill Swap, Role Play, Entrainment... hand over an ability the Pokémon didn't start with
+      if (from?.kind === 'move') break;
+      if (from?.kind === 'ability') {
+        // Trace and friends: the Pokémon's own ability is the source, the copied one belongs to [of]
+        revealAbility(ctx, event.pokemon.ref, from.name);
+        if (source) revealAbility(ctx, source.ref, event.ability);
+        break;
+      }
+      revealAbility(ctx, event.pokemon.ref, event.ability);
+      break;
+    }
+    case "-activate": {
+      const abilityMatch = event.effect.match(/^ability:\s*(.+)$/i);
+      if (abilityMatch) revealAbility(ctx, event.pokemon.ref, abilityMatch[1].trim());
+      break;
+    }
+    case "-item": {
+      const { from } = event.extras;
+      if (from?.kind !== 'move') {
+        revealItem(ctx, event.pokemon.ref, event.item);
+        break;
+      }
+      const entry = sheetEntryFor(ctx, event.pokemon.ref);
+      if (entry) ctx.receivedItems.add(entry);
+      // Trick swaps: the item one side receives is the one the other side was holding
+      if (['trick', 'switcheroo'].includes(toId(from.name))) {
+        const action = ctx.currentAction;
+        const giver = action?.actorRef === event.pokemon.ref ? action.targetRefs?.[0] : action?.actorRef;
+        const giverEntry = giver ? sheetEntryFor(ctx, giver) : undefined;
+        if (giverEntry && !giverEntry.item) giverEntry.item = event.item;
+      }
+      break;
+    }
+    case "-enditem": {
+      // Consumed, knocked off or stolen: either way the Pokémon was holding it
+      revealItem(ctx, event.pokemon.ref, event.item);
+      break;
+    }
+    case "-mega":
+    case "-burst": {
+      if (event.item) revealItem(ctx, event.pokemon.ref, event.item);
+      break;
+    }
+    case "-terastallize": {
+      const entry = sheetEntryFor(ctx, event.pokemon.ref);
+      if (entry) entry.teraType = event.teraType;
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+function statsFor(ctx: ParseContext, ref: string): PokemonBattleStats | undefined {
+  const mon = ctx.pokemon.get(ref);
+  if (!mon?.teamSpecies) return undefined;
+  const byPokemon = ctx.stats[mon.side];
+  const id = toId(mon.teamSpecies);
+  let stats = byPokemon.get(id);
+  if (!stats) {
+    stats = createPokemonStats(mon.side, mon.teamSpecies);
+    byPokemon.set(id, stats);
+  }
+  return stats;
+}
+
+function moveActorStats(ctx: ParseContext): PokemonBattleStats | undefined {
+  const action = ctx.currentAction;
+  return action?.type === "move" && action.actorRef ? statsFor(ctx, action.actorRef) : undefined;
+}
+
+// [from] ids of damage a Pokémon deals to itself: recoil, Life Orb and moves that cost HP
+const SELF_INFLICTED_DAMAGE = ['recoil', 'itemlifeorb', 'mindblown', 'steelbeam', 'chloroblast'];
+
+function damageSource(
+  ctx: ParseContext,
+  extras: ProtocolExtras,
+  target: PokemonBattleStats,
+): PokemonBattleStats | undefined {
+  const { from, of: source } = extras;
+  if (!from) return moveActorStats(ctx);
+
+  // Leech Seed, Rocky Helmet, Rough Skin... name their owner
+  const owner = source ? statsFor(ctx, source.ref) : undefined;
+  if (owner && owner !== target) return owner;
+
+  const id = toId(from.name);
+  // The Pokémon hurt itself: it takes the damage, nobody gets credit for it
+  if (SELF_INFLICTED_DAMAGE.includes(id)) return undefined;
+  if (['brn', 'psn', 'tox'].includes(id)) return ctx.statusSources.get(target);
+  if (['stealthrock', 'spikes', 'gmaxsteelsurge'].includes(id)) return ctx.effectSources.get(`${target.side}:${id}`);
+  if (['sandstorm', 'hail'].includes(id)) return ctx.effectSources.get('weather');
+  return ctx.volatileSources.get(target)?.get(id);
+}
+
+/** Credits HP changes, faints and field time to the Pokémon responsible; runs before the event is rendered. */
+function collectBattleStats(ctx: ParseContext, event: BattleEvent) {
+  switch (event.type) {
+    case "turn": {
+      for (const ref of Object.values(ctx.activePositions)) {
+        const mon = ctx.pokemon.get(ref);
+        const stats = mon && !mon.fainted ? statsFor(ctx, ref) : undefined;
+        if (stats) stats.turnsOnField += 1;
+      }
+      break;
+    }
+    case "-damage": {
+      const mon = ctx.pokemon.get(event.pokemon.ref);
+      const target = statsFor(ctx, event.pokemon.ref);
+      const after = getHPPercent(event.hp);
+      if (!mon || !target || after === undefined) break;
+      const amount = Math.max(0, (mon.hpPercent ?? 100) - after);
+      const source = damageSource(ctx, event.extras, target);
+      target.damageTaken += amount;
+      ctx.lastDamageSource.set(target, source);
+      if (source && source.side !== target.side) source.damageDealt += amount;
+      break;
+    }
+    case "-heal": {
+      const mon = ctx.pokemon.get(event.pokemon.ref);
+      const healed = statsFor(ctx, event.pokemon.ref);
+      const after = getHPPercent(event.hp);
+      if (!mon || !healed || after === undefined) break;
+      const { from, of: source, tags } = event.extras;
+      // Drain and Leech Seed name the Pokémon drained in [of]; only allies count as healers
+      const owner = source ? statsFor(ctx, source.ref) : undefined;
+      const actor = !from && !('silent' in tags) ? moveActorStats(ctx) : undefined;
+      const healer = [owner, actor].find(candidate => candidate?.side === healed.side) ?? healed;
+      healer.healingDone += Math.max(0, after - (mon.hpPercent ?? 100));
+      break;
+    }
+    case "faint": {
+      const target = statsFor(ctx, event.pokemon.ref);
+      if (!target) break;
+      target.faints += 1;
+      const source = ctx.lastDamageSource.get(target);
+      if (source && source.side !== target.side) source.kos += 1;
+      break;
+    }
+    case "-sidestart": {
+      const id = toId(event.condition.replace(/^move:\s*/i, ''));
+      const setter = event.extras.of ? statsFor(ctx, event.extras.of.ref) : moveActorStats(ctx);
+      if (setter) ctx.effectSources.set(`${event.side}:${id}`, setter);
+      break;
+    }
+    case "-weather": {
+      if ('upkeep' in event.extras.tags) break;
+      const setter = event.extras.of ? statsFor(ctx, event.extras.of.ref) : moveActorStats(ctx);
+      if (setter && event.weather !== 'none') {
+        ctx.effectSources.set('weather', setter);
+      } else {
+        ctx.effectSources.delete('weather');
+      }
+      break;
+    }
+    case "-status": {
+      const target = statsFor(ctx, event.pokemon.ref);
+      if (!target) break;
+      const { from, of: source } = event.extras;
+      let inflicter = source ? statsFor(ctx, source.ref) : undefined;
+      if (!inflicter && from?.kind !== 'item') {
+        inflicter = moveActorStats(ctx);
+        // Toxic Spikes poison a Pokémon as it switches in
+        const action = ctx.currentAction;
+        if (!inflicter && action?.type === "switch" && action.actorRef === event.pokemon.ref) {
+          inflicter = ctx.effectSources.get(`${target.side}:toxicspikes`);
+        }
+      }
+      if (inflicter && inflicter.side !== target.side) {
+        ctx.statusSources.set(target, inflicter);
+      } else {
+        ctx.statusSources.delete(target);
+      }
+      break;
+    }
+    case "-curestatus": {
+      const target = statsFor(ctx, event.pokemon.ref);
+      if (target) ctx.statusSources.delete(target);
+      break;
+    }
+    case "-start": {
+      const target = statsFor(ctx, event.pokemon.ref);
+      const source = event.extras.of ? statsFor(ctx, event.extras.of.ref) : moveActorStats(ctx);
+      if (!target || !source || source.side === target.side) break;
+      const sources = ctx.volatileSources.get(target) ?? new Map<string, PokemonBattleStats>();
+      sources.set(toId(normalizeVolatileName(event.effect)), source);
+      ctx.volatileSources.set(target, sources);
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+/** Notes moments that may be turning points; like the stats pass, it runs before the event is rendered. */
+function collectKeyMoments(ctx: ParseContext, event: BattleEvent) {
+  const turn = ctx.currentTurn.turn;
+  const action = ctx.currentAction;
+  switch (event.type) {
+    case "-damage": {
+      const { ref } = event.pokemon;
+      const mon = ctx.pokemon.get(ref);
+      const after = getHPPercent(event.hp);
+      if (!mon || after === undefined) break;
+      const direct = !event.extras.from && action?.type === "move" && action.actorRef !== ref;
+      ctx.lastDamage.set(ref, {
+        action,
+        attackerRef: direct ? action.actorRef : undefined,
+        crit: Boolean(ctx.pendingHitMarkers.get(ref)?.includes("crit")),
+      });
+      if (direct && after > 0 && after <= SLIVER_HP && (mon.hpPercent ?? 100) > SLIVER_HP) {
+        ctx.moments.push({ kind: "sliver", turn, side: mon.side, pokemon: mon.species, hp: after });
+      }
+      break;
+    }
+    case "faint": {
+      const { ref } = event.pokemon;
+      const mon = ctx.pokemon.get(ref);
+      const target = statsFor(ctx, ref);
+      if (!mon) break;
+      const source = target ? ctx.lastDamageSource.get(target) : undefined;
+      const by = source && source.side !== mon.side ? source : undefined;
+      // Only name the move when the Pokémon credited with the KO is the one that used it
+      const hit = ctx.lastDamage.get(ref);
+      const byMove = by && hit?.attackerRef && statsFor(ctx, hit.attackerRef) === by ? hit : undefined;
+      ctx.moments.push({ kind: "ko", turn, side: mon.side, pokemon: mon.species, by: by?.species, bySide: by?.side, move: byMove?.action?.move, crit: Boolean(byMove?.crit) });
+      break;
+    }
+    case "-miss": {
+      const mon = ctx.pokemon.get(event.pokemon.ref);
+      if (!mon || action?.type !== "move" || action.actorRef !== event.pokemon.ref) break;
+      ctx.moments.push({ kind: "miss", turn, side: mon.side, pokemon: mon.species, move: action.move ?? action.verb });
+      break;
+    }
+    case "cant": {
+      const mon = ctx.pokemon.get(event.pokemon.ref);
+      if (!mon || (event.reason !== "par" && event.reason !== "frz")) break;
+      ctx.moments.push({ kind: "immobilized", turn, side: mon.side, pokemon: mon.species, reason: event.reason });
+      break;
+    }
+    case "-status": {
+      const { ref } = event.pokemon;
+      const mon = ctx.pokemon.get(ref);
+      // Secondary effects land on a Pokémon the move has just hit
+      const hit = ctx.lastDamage.get(ref);
+      if (!mon || event.extras.from || !action || hit?.action !== action || !hit.attackerRef) break;
+      ctx.moments.push({ kind: "status", turn, side: mon.side, pokemon: mon.species, status: toId(event.status), move: action.move ?? action.verb });
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+function trackAppearance(ctx: ParseContext, action: ActionSummary) {
+  const refs = [action.actorRef, ...(action.targetRefs ?? [])];
+  for (const ref of refs) {
+    const mon = ref ? ctx.pokemon.get(ref) : undefined;
+    if (mon && !mon.sinceSwitchIn.actions.includes(action)) {
+      mon.sinceSwitchIn.actions.push(action);
+    }
+  }
+}
+
+function setCurrentAction(ctx: ParseContext, action: ActionSummary) {
+  ctx.currentTurn.actions.push(action);
+  ctx.currentAction = action;
+  trackAppearance(ctx, action);
+}
+
+function revealIllusion(ctx: ParseContext, ref: string) {
+  // Everything logged since the switch-in was attributed to the disguise; point it at the real Pokémon
+  const mon = ctx.pokemon.get(ref);
+  if (!mon) return;
+  const realName = withMarker(ctx, getPokemonDisplayName(ctx, ref), 'illusion');
+  const relabel = (name: string | undefined) => {
+    const markers = name ? extractMarkers(name).replace(sideTags(ctx), '') : '';
+    return `${realName}${markers}`;
+  };
+  for (const action of mon.sinceSwitchIn.actions) {
+    if (action.actorRef === ref) {
+      action.actorName = relabel(action.actorName);
+      action.actorSpecies = mon.species;
+      action.actorIconId = mon.iconId;
+    }
+    action.targetRefs?.forEach((targetRef, idx) => {
+      if (targetRef !== ref) return;
+      if (action.targetNames) action.targetNames[idx] = relabel(action.targetNames[idx]);
+      if (action.targetSpecies) action.targetSpecies[idx] = mon.species;
+    });
+  }
+  const leadEntry = mon.sinceSwitchIn.leadEntry;
+  if (leadEntry) {
+    leadEntry.pokemon = { name: realName, species: mon.species, iconId: mon.iconId };
+  }
+}
+
+
+function makeDetail(text: string, tag?: DetailTag): DetailNode {
+  return { kind: 'text', text, tag };
+}
+
 function isEndOfTurnSource(source: string): boolean {
   const lowerSource = source.toLowerCase();
   return (
@@ -285,22 +1015,13 @@ function isEndOfTurnSource(source: string): boolean {
   );
 }
 
-function appendDetail(ctx: ParseContext, detail: string | DetailEntry, forceEndEvent = false) {
-  if (typeof detail === 'string') {
-    if (!detail.trim()) return;
-    const entry = makeDetail(detail);
-    if (forceEndEvent || !ctx.currentAction) {
-      ctx.currentTurn.endEvents.push(entry);
-    } else {
-      ctx.currentAction.details.push(entry);
-    }
-    return;
-  }
-  if (!detail || (!detail.text && !detail.html)) return;
+function appendDetail(ctx: ParseContext, detail: string | DetailNode, forceEndEvent = false) {
+  const entry = typeof detail === 'string' ? makeDetail(detail) : detail;
+  if (!renderDetailText(entry).trim()) return;
   if (forceEndEvent || !ctx.currentAction) {
-    ctx.currentTurn.endEvents.push(detail);
+    ctx.currentTurn.endEvents.push(entry);
   } else {
-    ctx.currentAction.details.push(detail);
+    ctx.currentAction.details.push(entry);
   }
 }
 
@@ -308,333 +1029,169 @@ function pushHeaderEvent(ctx: ParseContext, text: string) {
   if (ctx.currentTurn.actions.length === 0) {
     ctx.currentTurn.headerEvents.push(text);
   } else {
-    ctx.currentTurn.endEvents.push(makeDetail(text));
+    ctx.currentTurn.endEvents.push(makeDetail(text, 'field'));
   }
 }
 
 function flushPendingFieldEnds(ctx: ParseContext) {
   if (ctx.pendingFieldEnds.length === 0) return;
 
-  const fieldEndTexts = ctx.pendingFieldEnds.map(e => `${e.effect} ends`);
+  const fieldEndTexts = ctx.pendingFieldEnds.map(e => ctx.t.messages.effectEnds(e.effect));
   const combined = fieldEndTexts.join('; ');
-  ctx.currentTurn.endEvents.push(makeDetail(combined));
+  ctx.currentTurn.endEvents.push(makeDetail(combined, 'field'));
   ctx.pendingFieldEnds = [];
 }
 
-function iconHTML(iconId: string | undefined, alt: string): string {
-  return renderPokemonIcon(iconId || DEFAULT_ICON_ID, alt);
+const HIT_MARKER_ORDER = ['crit', 'SE', 'resisted', 'OHKO'];
+
+function addHitMarker(ctx: ParseContext, ref: string, marker: string) {
+  const markers = ctx.pendingHitMarkers.get(ref) ?? [];
+  if (!markers.includes(marker)) markers.push(marker);
+  markers.sort((a, b) => HIT_MARKER_ORDER.indexOf(a) - HIT_MARKER_ORDER.indexOf(b));
+  ctx.pendingHitMarkers.set(ref, markers);
+}
+
+function takeHitMarkers(ctx: ParseContext, ref: string): string[] {
+  // Markers precede the damage line for their target, so spread moves can be matched per target
+  const markers = ctx.pendingHitMarkers.get(ref) ?? [];
+  ctx.pendingHitMarkers.delete(ref);
+  return markers;
 }
 
-function extractMarkers(displayName: string): string {
-  // Extract markers like (opp), (Protect), (immune) from the end of the name
-  const markerMatch = displayName.match(/(\s*\([^)]+\))+$/);
-  return markerMatch ? markerMatch[0] : '';
+function formatDamageBody(ctx: ParseContext, change: string, markers: string[], extras: string[]): string {
+  const { hits } = ctx.t.messages;
+  const annotations = [markers.map((marker) => hits[marker] ?? marker).join(', '), ...extras].filter(Boolean);
+  return annotations.length ? `${change} (${annotations.join('; ')})` : change;
 }
 
-function iconHTMLWithMarkers(iconId: string | undefined, displayName: string): string {
-  const icon = iconHTML(iconId, displayName);
-  const markers = extractMarkers(displayName);
-  return markers ? `${icon}${markers}` : icon;
+function recordGimmick(ctx: ParseContext, ref: string, kind: GimmickKind, event: string, detail?: string) {
+  const side = resolveSide(ref);
+  const pokemon = ctx.pokemon.get(ref)?.species || ref;
+  // Each gimmick can only be used once per side, so repeats (e.g. a replayed log line) stay out of the meta.
+  // Primal Reversion isn't limited: a team can bring Groudon and Kyogre, and each reverts again on every switch-in
+  const repeated = ctx.gimmicks.some(use => use.side === side && use.kind === kind && (kind !== 'primal' || use.pokemon === pokemon));
+  if (!repeated) ctx.gimmicks.push({ kind, side, pokemon, turn: ctx.currentTurn.turn, detail });
+  // Always add to gimmickEvents, regardless of whether actions have started
+  ctx.currentTurn.gimmickEvents.push(event);
 }
 
-function detailWithIcon(ctx: ParseContext, ref: string, body: string, htmlBody?: string): DetailEntry {
+function detailWithIcon(ctx: ParseContext, ref: string, body: string, tag?: DetailTag): DetailNode {
   const side = resolveSide(ref);
   const mon = getOrCreatePokemon(ctx, ref, side);
-  const label = getPokemonDisplayName(ctx, ref);
-  const iconWithMarker = iconHTMLWithMarkers(mon.iconId, label);
-  const html = `${iconWithMarker} ${htmlBody ?? body}`;
-  const text = `${label} ${body}`.trim();
-  return makeDetail(text, html.trim());
+  const pokemon = { name: getPokemonDisplayName(ctx, ref), species: mon.species, iconId: mon.iconId || DEFAULT_ICON_ID };
+  return { kind: 'pokemon', ref, pokemon, body, tag };
+}
+
+function isBoostDetail(detail: DetailNode): boolean {
+  return /[+-]\d+\s+\S+/.test(renderDetailText(detail).trim());
 }
 
-function actionHeadline(ctx: ParseContext, action: ActionSummary): DualFormat {
+function hidesTargets(ctx: ParseContext, action: ActionSummary): boolean {
+  // In singles the target is always the opposing active Pokémon, so the arrow only
+  // adds something when the target carries a marker like (Protect) or (immune)
+  if (ctx.gameType !== 'singles' || action.type !== 'move') return false;
+  if (!action.targetRefs?.some(ref => ref !== action.actorRef)) return false;
+  return !(action.targetNames ?? []).some(name => extractMarkers(name).replace(sideTags(ctx), ''));
+}
+
+function actorLabel(action: ActionSummary, fallback: string): PokemonLabel {
+  return { name: action.actorName || fallback, species: action.actorSpecies, iconId: action.actorIconId };
+}
+
+function actionHeadline(ctx: ParseContext, action: ActionSummary): HeadlineNode {
   if (action.type === "switch") {
     // Use the actorName that was set at action creation time (includes (opp) if needed)
-    const toText = action.actorName || "";
-    const currentIcon = action.actorIconId ? iconHTMLWithMarkers(action.actorIconId, toText) : "";
-
-    // Check if this is a replacement entry
     if (action.verb.startsWith("enters")) {
-      const html = `${currentIcon} ${action.verb}`.trim();
-      const text = `${toText} ${action.verb}`.trim();
-      return { html, text };
-    }
-
-    // Voluntary switch with arrows
-    const previousIcon = action.fromIconId ? iconHTML(action.fromIconId, action.fromName || "Previous") : "";
-    const htmlParts: string[] = [];
-    if (previousIcon) htmlParts.push(previousIcon);
-    if (currentIcon) {
-      if (htmlParts.length) htmlParts.push(`-> ${currentIcon}`);
-      else htmlParts.push(currentIcon);
+      return { kind: "enter", pokemon: actorLabel(action, ""), verb: ctx.t.messages.enters };
     }
 
     // Check if verb has additional info (ability activation, etc.)
-    let extraInfo = "";
+    let note = "";
     if (action.verb && action.verb !== "switches") {
       const parts = action.verb.split(";");
       if (parts.length > 1 && parts[0].trim() === "switches") {
         // Extract everything after "switches"
-        extraInfo = "; " + parts.slice(1).map(p => p.trim()).join("; ");
+        note = "; " + parts.slice(1).map(p => p.trim()).join("; ");
       }
     }
-
-    const html = (htmlParts.join(" ").trim() || currentIcon || previousIcon || "Switch") + extraInfo;
-    const fromText = action.fromName || (action.fromIconId ? "Prev" : "");
-    const text = (fromText && toText ? `${fromText} -> ${toText}` : toText || fromText || "Switch") + extraInfo;
-    return { html, text };
+    const from = action.fromName || action.fromIconId ? { name: action.fromName || "Prev", iconId: action.fromIconId } : undefined;
+    const to = action.actorName ? actorLabel(action, "") : undefined;
+    return { kind: "switch", from, to, note };
   }
 
-  // Use the actorName that was set at action creation time (includes (opp) if needed)
-  const actorName = action.actorName || "?";
-  const actorIcon = action.actorIconId ? iconHTMLWithMarkers(action.actorIconId, actorName) : "";
+  // Transformed Pokémon show the copied species next to their own
+  const transform = action.actorTransformSpecies
+    ? { name: ctx.t.species(action.actorTransformSpecies), species: action.actorTransformSpecies, iconId: action.actorTransformIconId }
+    : undefined;
 
   // Check if self-targeting (no target or actor is target) or spread move
   const isSelfTarget = !action.targetRefs?.length ||
     (action.targetRefs.length === 1 && action.actorRef === action.targetRefs[0]) ||
-    action.isSpread;
+    action.isSpread ||
+    hidesTargets(ctx, action);
 
   // Use targetNames that were set at action creation time (includes (opp) and (Protect) if needed)
-  const targetDisplayNames = action.targetNames && !isSelfTarget
-    ? action.targetNames
-    : [];
-
-  const targetText = targetDisplayNames.length > 0
-    ? targetDisplayNames.join(", ")
-    : "";
-  const targetIconHtml = action.targetSpecies && action.targetSpecies.length && !isSelfTarget
-    ? action.targetSpecies
-        .map((species, idx) => {
-          const displayName = targetDisplayNames[idx] || action.targetNames?.[idx] || species;
-          return iconHTMLWithMarkers(toIconId(species) || DEFAULT_ICON_ID, displayName);
-        })
-        .join(" ")
-    : "";
-  const htmlSegments: string[] = [];
-  if (actorIcon) {
-    htmlSegments.push(actorIcon);
-  } else if (actorName) {
-    htmlSegments.push(actorName);
-  }
-  htmlSegments.push(action.verb);
-  if (targetIconHtml) {
-    htmlSegments.push(`-> ${targetIconHtml}`);
-  } else if (targetText) {
-    htmlSegments.push(`-> ${targetText}`);
-  }
-  const textSegments: string[] = [];
-  textSegments.push(`${actorName} ${action.verb}`.trim());
-  if (targetText) {
-    textSegments.push(`-> ${targetText}`);
-  }
-  return {
-    html: htmlSegments.join(" ").replace(/\s+/g, " "),
-    text: textSegments.join(" ").replace(/\s+/g, " "),
-  };
-}
-
-function combineDetails(details: DetailEntry[]): DualFormat | null {
-  if (!details.length) return null;
-  const text = details.map((detail) => detail.text).filter(Boolean).join("; ");
-  const html = details.map((detail) => detail.html || detail.text).filter(Boolean).join("; ");
-  if (!text && !html) return null;
-  return {
-    text: text || html,
-    html: html || text,
-  };
+  const targets = isSelfTarget ? [] : (action.targetNames ?? []).map((name, idx) => {
+    const species = action.targetSpecies?.[idx];
+    return { name, species, iconId: species ? toIconId(species) || DEFAULT_ICON_ID : undefined };
+  });
+  return { kind: "move", actor: actorLabel(action, "?"), transform, verb: action.verb, targets };
 }
 
-function aggregateBoostDetails(details: DetailEntry[]): DetailEntry[] {
-  if (details.length <= 1) return details;
-
-  const result: DetailEntry[] = [];
-  let i = 0;
-
-  while (i < details.length) {
-    const current = details[i];
-
-    // Check if this is a boost detail (contains pattern like "+1 ATK" or "-2 DEF")
-    const boostMatch = current.text.match(/^(.+?)\s+([+-]\d+\s+\w+)$/);
-
-    if (!boostMatch) {
-      // Not a boost, just add it
-      result.push(current);
-      i++;
-      continue;
-    }
-
-    // Extract the prefix (Pokémon name) and boost part
-    const [, prefix, firstBoost] = boostMatch;
-    const boosts: string[] = [firstBoost];
-    const htmlBoosts: string[] = [];
-
-    // Extract boost from HTML (remove icon, get just the boost part)
-    const htmlMatch = current.html.match(/^(.*?)\s+([+-]\d+\s+\w+)$/);
-    if (htmlMatch) {
-      htmlBoosts.push(htmlMatch[2]);
-    }
-
-    // Look ahead for consecutive boosts with the same prefix
-    let j = i + 1;
-    while (j < details.length) {
-      const next = details[j];
-      const nextBoostMatch = next.text.match(/^(.+?)\s+([+-]\d+\s+\w+)$/);
-
-      if (!nextBoostMatch || nextBoostMatch[1] !== prefix) {
-        // Different prefix or not a boost, stop collecting
-        break;
-      }
-
-      boosts.push(nextBoostMatch[2]);
-
-      const nextHtmlMatch = next.html.match(/^(.*?)\s+([+-]\d+\s+\w+)$/);
-      if (nextHtmlMatch) {
-        htmlBoosts.push(nextHtmlMatch[2]);
-      }
-
-      j++;
-    }
-
-    // Create combined boost entry
-    if (boosts.length > 1) {
-      // Multiple boosts - combine with commas
-      const combinedText = `${prefix} ${boosts.join(', ')}`;
-      const htmlPrefix = htmlMatch ? htmlMatch[1] : prefix;
-      const combinedHtml = `${htmlPrefix} ${htmlBoosts.join(', ')}`;
-      result.push(makeDetail(combinedText, combinedHtml));
-      i = j;
+function aggregateBoostDetails(details: DetailNode[]): DetailNode[] {
+  // Consecutive stat changes on the same Pokémon read as one entry ("+1 ATK, +1 SPA")
+  const result: DetailNode[] = [];
+  let run: Extract<DetailNode, { kind: "pokemon" }> | undefined;
+  for (const detail of details) {
+    if (detail.kind !== "pokemon" || !/^[+-]\d+\s+\S+$/.test(detail.body)) {
+      run = undefined;
+      result.push(detail);
+    } else if (run && run.pokemon.name === detail.pokemon.name) {
+      run.body = `${run.body}, ${detail.body}`;
     } else {
-      // Single boost, keep as-is
-      result.push(current);
-      i++;
+      run = { ...detail };
+      result.push(run);
     }
   }
-
   return result;
 }
 
-function formatTurn(ctx: ParseContext, turn: TurnSummary): { html: string[]; text: string[] } {
-  const htmlLines: string[] = [];
-  const textLines: string[] = [];
-  const isLead = turn.turn === 0;
-  const turnLabel = isLead ? (turn.label || "Lead") : `T${turn.turn}`;
-
-  // Separate terastallize events from other header events
-  const teraEvents = turn.headerEvents.filter(e => e.startsWith('Terastallize'));
-  const otherEvents = turn.headerEvents.filter(e => !e.startsWith('Terastallize'));
-  const headerSuffix = otherEvents.length ? ` ${otherEvents.join("; ")}` : "";
-
-  if (isLead) {
-    const p1Entries = turn.leadEntries.filter((entry) => entry.side === "p1");
-    const p2Entries = turn.leadEntries.filter((entry) => entry.side === "p2");
-    const p1Html = p1Entries.map((entry) => entry.html).join("");
-    const p2Html = p2Entries.map((entry) => entry.html).join("");
-    const p1Text = p1Entries.map((entry) => entry.text).join(", ");
-    const p2Text = p2Entries.map((entry) => entry.text).join(", ");
-    let vsHtml = "";
-    if (p1Html || p2Html) {
-      vsHtml = ` ${p1Html}`;
-      if (p2Html) {
-        vsHtml += `&nbsp;vs&nbsp;${p2Html}`;
-      }
-    }
-    const textParts: string[] = [];
-    if (p1Text) textParts.push(p1Text);
-    if (p2Text) textParts.push(p2Text);
-    const vsText = textParts.length ? ` ${textParts.join(" vs ")}` : "";
-    htmlLines.push(`<div><strong>${turnLabel}</strong>${vsHtml}${headerSuffix}</div>`);
-    textLines.push(`${turnLabel}${vsText}${headerSuffix}`.trim());
-  } else {
-    htmlLines.push(`<div><strong>${turnLabel}</strong>${headerSuffix}</div>`);
-    textLines.push(`${turnLabel}${headerSuffix}`.trim());
-  }
-
-  // Add terastallize events as separate lines after turn header
-  for (const teraEvent of teraEvents) {
-    htmlLines.push(`<div>&nbsp;&nbsp;${teraEvent}</div>`);
-    textLines.push(`  ${teraEvent}`);
-  }
-
-  for (const action of turn.actions) {
-    const headline = actionHeadline(ctx, action);
-
-    // Use comma for single-target moves with details, dash for others
-    const isSingleTarget = action.type === "move" &&
-      action.targetNames?.length === 1 &&
-      !action.isSpread;
-    const separator = action.details.length > 0 && isSingleTarget ? ", " : " — ";
-
-    // Aggregate consecutive boost details for the same Pokémon
-    const aggregatedDetails = aggregateBoostDetails(action.details);
-
-    // Combine details
-    let combined: DualFormat | null = null;
-    if (isSingleTarget && aggregatedDetails.length > 0) {
-      // Check if all details are stat boosts (match pattern like "Pokemon +1 ATK", "-2 DEF", etc.)
-      const allBoosts = aggregatedDetails.every(d => /[+-]\d+\s+\w+/.test(d.text.trim()));
-      if (allBoosts) {
-        // Combine boosts with commas
-        const text = aggregatedDetails.map(d => d.text).filter(Boolean).join(", ");
-        const html = aggregatedDetails.map(d => d.html || d.text).filter(Boolean).join(", ");
-        combined = { text, html };
-      } else {
-        combined = combineDetails(aggregatedDetails);
-      }
-    } else {
-      combined = combineDetails(aggregatedDetails);
-    }
-
-    // For single-target moves, strip the target name/icon from all details
-    if (combined && isSingleTarget && aggregatedDetails.length > 0) {
-      const targetIconId = action.targetSpecies?.[0] ? toIconId(action.targetSpecies[0]) : undefined;
-      const targetName = action.targetNames?.[0] || "";
-
-      // Remove all occurrences of the target icon and name from the combined details
-      if (targetIconId) {
-        const iconPattern = `<img src="https://play.pokemonshowdown.com/sprites/gen5/${targetIconId}.png"[^>]*>`;
-        combined.html = combined.html.replace(new RegExp(iconPattern, 'g'), "").trim();
-      }
-      if (targetName) {
-        // Remove all instances of target name (at start of segments, after commas/semicolons)
-        const namePattern = `(^|[,;]\\s*)${targetName}\\s+`;
-        combined.text = combined.text.replace(new RegExp(namePattern, 'g'), '$1').trim();
-      }
-    }
-
-    const htmlLine = combined ? `${headline.html}${separator}${combined.html}` : headline.html;
-    const textLine = combined ? `${headline.text}${separator}${combined.text}` : headline.text;
-    htmlLines.push(`<div>&nbsp;&nbsp;${htmlLine}</div>`);
-    textLines.push(`  ${textLine}`);
-  }
-
-  if (turn.endEvents.length) {
-    const combined = combineDetails(turn.endEvents);
-    if (combined) {
-      htmlLines.push(`<div>&nbsp;&nbsp;&nbsp;&nbsp;${combined.html}</div>`);
-      textLines.push(`    ${combined.text}`);
-    }
-  }
-
-  // Render replacement switches after endEvents
-  for (const replacement of turn.replacementSwitches) {
-    const headline = actionHeadline(ctx, replacement);
-    const combined = combineDetails(replacement.details);
-    const htmlLine = combined ? `${headline.html} — ${combined.html}` : headline.html;
-    const textLine = combined ? `${headline.text} — ${combined.text}` : headline.text;
-    htmlLines.push(`<div>&nbsp;&nbsp;${htmlLine}</div>`);
-    textLines.push(`  ${textLine}`);
-  }
+function buildActionNode(ctx: ParseContext, action: ActionSummary): ActionNode {
+  // Details about a move's only target drop its name, since the headline already shows it
+  const isSingleTarget = action.type === "move" &&
+    action.targetNames?.length === 1 &&
+    !action.isSpread &&
+    !hidesTargets(ctx, action);
+  const details = aggregateBoostDetails(action.details);
+  // Stat changes on a single target read as one list
+  const detailSeparator = isSingleTarget && details.every(isBoostDetail) ? ", " : "; ";
+  const targetRef = isSingleTarget ? action.targetRefs?.[0] : undefined;
+  return { headline: actionHeadline(ctx, action), details, detailSeparator, targetRef };
+}
 
-  return { html: htmlLines, text: textLines };
+function buildTurnNode(ctx: ParseContext, turn: TurnSummary): TurnNode {
+  return {
+    turn: turn.turn,
+    headerEvents: turn.headerEvents,
+    gimmickEvents: turn.gimmickEvents,
+    actions: turn.actions.map((action) => buildActionNode(ctx, action)),
+    endEvents: turn.endEvents,
+    residual: [],
+    replacements: turn.replacementSwitches.map((replacement) => ({
+      headline: actionHeadline(ctx, replacement),
+      details: replacement.details,
+      detailSeparator: "; ",
+    })),
+  };
 }
 
 function addNoteAction(ctx: ParseContext, ref: string | undefined, note: string) {
-  const side = ref ? resolveSide(ref) : 'p1';
+  const side: SideId = ref ? resolveSide(ref) : 'p1';
   const actor = ref ? ctx.pokemon.get(ref) : undefined;
   const action: ActionSummary = {
     type: "note",
     actorRef: ref,
-    actorName: actor?.nickname || actor?.species,
+    actorName: actor && pokemonName(ctx, actor),
     actorSpecies: actor?.species,
     actorIconId: actor?.iconId,
     side,
@@ -649,15 +1206,11 @@ function finalizePendingAbilityBoost(ctx: ParseContext) {
 
   const { ref, ability, boosts } = ctx.pendingAbilityBoost;
   const mon = ctx.pokemon.get(ref);
-  const pokemonName = mon?.nickname || mon?.species || ref;
-  const possessive = pokemonName.endsWith('s') ? `'` : `'s`;
+  const name = mon ? pokemonName(ctx, mon) : ref;
 
   // Build the ability announcement with all boosts
-  const parts: DetailEntry[] = [];
-  // Manually construct the ability announcement with sprite
-  const abilityText = `${pokemonName}${possessive} ${ability}`;
-  const abilityHtml = `${iconHTML(mon?.iconId, pokemonName)}${pokemonName}${possessive} ${ability}`;
-  parts.push(makeDetail(abilityText, abilityHtml));
+  const parts: DetailNode[] = [];
+  parts.push({ kind: 'announce', pokemon: { name, species: mon?.species, iconId: mon?.iconId }, text: ctx.t.messages.possessive(name, ability) });
 
   // Group boosts by target ref to consolidate multiple boosts to same target
   const boostsByTarget = new Map<string, Array<{ direction: string; amount: number; stat: string }>>();
@@ -675,13 +1228,11 @@ function finalizePendingAbilityBoost(ctx: ParseContext) {
     parts.push(detailWithIcon(ctx, targetRef, combinedBoostText));
   }
 
-  const combined = combineDetails(parts);
-  if (combined) {
-    if (ctx.leadPhase || ctx.currentTurn.turn === 1 && ctx.currentTurn.actions.length === 0) {
-      pushHeaderEvent(ctx, combined.text);
-    } else {
-      appendDetail(ctx, combined);
-    }
+  const combined: DetailNode = { kind: 'group', parts, separator: '; ' };
+  if (ctx.leadPhase || ctx.currentTurn.turn === 1 && ctx.currentTurn.actions.length === 0) {
+    pushHeaderEvent(ctx, renderDetailText(combined));
+  } else {
+    appendDetail(ctx, combined);
   }
 
   ctx.pendingAbilityBoost = undefined;
@@ -694,7 +1245,7 @@ function finalizePendingTrickItems(ctx: ParseContext) {
   const parts: string[] = [];
   for (const { ref, item } of ctx.pendingTrickItems) {
     const displayName = getPokemonDisplayName(ctx, ref);
-    parts.push(`${item} to ${displayName}`);
+    parts.push(ctx.t.messages.itemTo(ctx.t.item(item), displayName));
   }
 
   const detail = parts.join(', ');
@@ -707,67 +1258,110 @@ function finalizePendingTrickItems(ctx: ParseContext) {
 export interface SummarizedReplay {
   html: string;
   text: string;
+  markdown: string;
+  /** Discord-flavoured Markdown, split at turn boundaries into messages under the length limit */
+  discord: string[];
+  /** Board state at the start of each turn */
+  snapshots: TurnSnapshot[];
+  /** Everything the replay reveals about each side's team */
+  teams: Partial<Record<SideId, TeamSheet>>;
+  /** Per-turn HP/Pokémon-left standings and the standalone SVG chart drawn from them */
+  momentum: MomentumData & { svg: string };
+  /** The moments most worth discussing, highest ranked first */
+  turningPoints: TurningPoint[];
+  /** Each side's leads and every Pokémon it sent out, in team order */
+  lineups: Partial<Record<SideId, { leads: string[]; brought: string[] }>>;
+  /** The summary's opening line ("[W] Alice vs [L] Bob — format"), the perspective's player first */
+  matchLine: string;
+  /** The summary's closing line ("X Wins on T7") */
+  resultLine: string;
   meta: {
     id?: string;
     format?: string;
+    gameType: GameType;
     players: PlayerMap;
     winner?: string;
     loser?: string;
     resultNote?: string;
+    result: BattleResult;
+    gimmicks: GimmickUse[];
+    stats: PokemonBattleStats[];
+    mvp?: PokemonBattleStats;
   };
 }
 
-interface ReplayJSON {
-  id?: string;
-  format?: string;
-  log: string;
-  players?: string[];
-  rating?: number;
-}
-
 function parseLog(ctx: ParseContext, log: string) {
-  const lines = log.split("\n");
-  for (const rawLine of lines) {
-    const line = rawLine.startsWith("|") ? rawLine.slice(1) : rawLine;
-    if (!line) continue;
-    const parts = line.split("|");
-    const tag = parts[0];
-    switch (tag) {
+  for (const event of parseBattleEvents(log)) {
+    collectTeamSheet(ctx, event);
+    collectBattleStats(ctx, event);
+    collectKeyMoments(ctx, event);
+    switch (event.type) {
       case "player": {
-        const side = parts[1] as "p1" | "p2";
-        const name = parts[2];
+        const { side, name } = event;
+        if (!ALL_SIDES.includes(side)) break;
+        registerSide(ctx, side);
         if (name) ctx.players[side] = name;
         break;
       }
-      case "gen":
-      case "tier":
-      case "format": {
-        if (!ctx.formatName) ctx.formatName = parts[1];
+      case "gametype": {
+        ctx.gameType = normalizeGameType(event.gameType);
+        for (const side of sidesForGameType(ctx.gameType)) {
+          registerSide(ctx, side);
+        }
+        break;
+      }
+      case "gen": {
+        if (!ctx.formatName) ctx.formatName = event.gen;
+        break;
+      }
+      case "tier": {
+        // Without replay JSON the format comes from the log, where "|gen|" (a bare number) precedes "|tier|"
+        if (!ctx.formatName || /^\d+$/.test(ctx.formatName)) ctx.formatName = event.tier;
         break;
       }
       case "win": {
-        ctx.winner = parts[1];
+        ctx.winner = event.winner;
         break;
       }
-      case "l": {
-        const loserToken = parts[1] || "";
-        ctx.loser = loserToken.replace(/^[^A-Za-z0-9]+/, "");
+      case "tie": {
+        ctx.tie = true;
+        break;
+      }
+      case "leave": {
+        ctx.loser = event.user;
         break;
       }
       case "turn": {
         finalizePendingAbilityBoost(ctx); // Finalize any pending ability boost
         finalizePendingTrickItems(ctx); // Finalize any pending Trick items
-        const turnNumber = Number(parts[1]);
+        const turnNumber = event.turn;
+        ctx.snapshots.push(takeSnapshot(ctx, turnNumber));
         ctx.leadPhase = false;
         ensureCurrentTurn(ctx, turnNumber);
         ctx.currentAction = null;
         break;
       }
+      case "teamsize": {
+        if (ALL_SIDES.includes(event.side)) ctx.teamSizes[event.side] = event.size;
+        break;
+      }
+      case "teampreview": {
+        ctx.pickCount = event.pick;
+        break;
+      }
       case "poke": {
-        const side = parts[1] as "p1" | "p2";
-        const detail = parts[2];
-        const species = detail.split(",")[0];
-        addSpecies(ctx, side, species);
+        addSpecies(ctx, event.side, event.details.species);
+        break;
+      }
+      case "showteam": {
+        if (!ALL_SIDES.includes(event.side)) break;
+        registerSide(ctx, event.side);
+        // Packed names lose their punctuation; prefer the team preview spelling
+        const preview = ctx.teams[event.side];
+        ctx.openSheets[event.side] = event.team.map((set) => {
+          const species = preview.find((name) => toId(name) === toId(set.species));
+          return species ? { ...set, species } : set;
+        });
         break;
       }
       case "switch":
@@ -775,30 +1369,45 @@ function parseLog(ctx: ParseContext, log: string) {
       case "replace": {
         finalizePendingAbilityBoost(ctx); // Finalize any pending ability boost
         finalizePendingTrickItems(ctx); // Finalize any pending Trick items
-        const { ref, nickname, side } = parsePokemonRef(parts[1]);
-        const details = parts[2] || "";
-        const species = details.split(",")[0];
+        const { ref, nickname, side } = event.pokemon;
+        const species = event.details.species;
         const previousMon = ctx.pokemon.get(ref);
         const previousIconId = previousMon?.iconId;
-        const previousName = previousMon?.nickname || previousMon?.species;
+        const previousName = previousMon && pokemonName(ctx, previousMon);
+        if (previousMon && event.type !== "replace") recordBenchState(ctx, previousMon);
         updatePokemonSpecies(ctx, ref, species);
         const mon = ctx.pokemon.get(ref);
         if (!mon) break;
         if (nickname) mon.nickname = nickname;
-        const hpRaw = parts[3] || "";
-        const hpStatus = parseHPStatus(hpRaw);
+        mon.teamSpecies = species;
+
+        // "replace" reveals the Pokémon behind an Illusion; it doesn't enter the field
+        if (event.type === "replace") {
+          revealIllusion(ctx, ref);
+          break;
+        }
+
+        // Volatiles belong to the Pokémon leaving the slot
+        mon.volatiles.clear();
+        mon.boosts = {};
+        mon.gigantamax = false;
+        mon.transformedInto = undefined;
+        mon.sinceSwitchIn = { actions: [], revealedMoves: [] };
+        ctx.pendingConfusionEnds.delete(ref);
+        const hpStatus = event.hp;
         mon.lastDisplayHP = formatHPPercentageOnly(hpStatus);
+        mon.hpPercent = getHPPercent(hpStatus);
         mon.status = hpStatus.status;
         mon.fainted = hpStatus.fainted;
 
         // Update active positions - extract position from ref (e.g., "p1a" from "p1a: Dragonite")
-        const position = ref.match(/^(p[12][ab])/)?.[1];
+        const position = ref.match(/^(p[1-4][a-c])/)?.[1];
         if (position) {
-          ctx.activePositions[position as keyof typeof ctx.activePositions] = ref;
+          ctx.activePositions[position] = ref;
         }
 
         // Check if this is a forced switch from a move (e.g., Parting Shot, U-turn, Volt Switch)
-        const switchExtras = parseExtras(parts, 4);
+        const switchExtras = event.extras.labels;
         const forcedByMove = switchExtras.find(extra => {
           // Check if this is from a move (not ability or item)
           const lowerExtra = extra.toLowerCase();
@@ -809,45 +1418,38 @@ function parseLog(ctx: ParseContext, log: string) {
           // This is a forced switch from the current move - merge it into that action
 
           // First, consolidate any boost details with commas
-          const boostDetails = ctx.currentAction.details.filter(d => /[+-]\d+\s+\w+/.test(d.text.trim()));
-          const otherDetails = ctx.currentAction.details.filter(d => !/[+-]\d+\s+\w+/.test(d.text.trim()));
+          const boostDetails = ctx.currentAction.details.filter(isBoostDetail);
+          const otherDetails = ctx.currentAction.details.filter(d => !isBoostDetail(d));
 
           if (boostDetails.length > 0) {
-            const boostText = boostDetails.map(d => d.text).join(", ");
-            const boostHtml = boostDetails.map(d => d.html || d.text).join(", ");
-            ctx.currentAction.details = [makeDetail(boostText, boostHtml), ...otherDetails];
+            ctx.currentAction.details = [{ kind: 'group', parts: boostDetails, separator: ', ' }, ...otherDetails];
           }
 
           // Add switch detail with icons
-          const displayName = getPokemonDisplayName(ctx, ref);
-          const switchText = `${previousName || 'Previous'} -> ${displayName}`;
-          const previousIcon = previousIconId ? iconHTML(previousIconId, previousName || "Previous") : "";
-          const currentIcon = mon.iconId ? iconHTML(mon.iconId, displayName) : "";
-          let switchHtml = switchText;
-          if (previousIcon && currentIcon) {
-            switchHtml = `${previousIcon} -> ${currentIcon}`;
-          } else if (currentIcon) {
-            switchHtml = currentIcon;
-          }
-          ctx.currentAction.details.push(makeDetail(switchText, switchHtml));
+          ctx.currentAction.details.push({
+            kind: 'switch',
+            from: { name: previousName || 'Previous', iconId: previousIconId },
+            to: { name: getPokemonDisplayName(ctx, ref), species: mon.species, iconId: mon.iconId },
+          });
 
           // Active positions already updated above
           break;
         }
 
         if (ctx.leadPhase) {
-          const label = mon.nickname || mon.species || ref;
-          ctx.currentTurn.leadEntries.push({
+          const label = pokemonName(ctx, mon) || ref;
+          const leadEntry: LeadEntry = {
             side,
-            html: iconHTML(mon.iconId, label),
-            text: label,
-          });
+            pokemon: { name: label, species: mon.species, iconId: mon.iconId },
+          };
+          ctx.currentTurn.leadEntries.push(leadEntry);
+          mon.sinceSwitchIn.leadEntry = leadEntry;
           ctx.currentAction = null;
           break;
         }
-        const switchDetails: DetailEntry[] = [];
+        const switchDetails: DetailNode[] = [];
         if (hpStatus.fainted) {
-          switchDetails.push(makeDetail('fainted on entry'));
+          switchDetails.push(makeDetail(ctx.t.messages.faintedOnEntry, 'ko'));
         }
         // Check if this is a replacement (after a faint) or voluntary switch
         const isReplacement = ctx.faintedThisTurn.size > 0;
@@ -880,6 +1482,7 @@ function parseLog(ctx: ParseContext, log: string) {
         // Add replacement switches after endEvents, regular switches as actions
         if (isReplacement) {
           ctx.currentTurn.replacementSwitches.push(action);
+          trackAppearance(ctx, action);
           ctx.currentAction = null; // Don't set as current action for replacements
         } else {
           setCurrentAction(ctx, action);
@@ -889,13 +1492,12 @@ function parseLog(ctx: ParseContext, log: string) {
       case "move": {
         finalizePendingAbilityBoost(ctx); // Finalize any pending ability boost
         finalizePendingTrickItems(ctx); // Finalize any pending Trick items
-        const { ref, nickname, side } = parsePokemonRef(parts[1]);
-        const move = prettifyMove(parts[2]);
-        const targetRaw = parts[3];
+        const { ref, nickname, side } = event.pokemon;
+        let move = prettifyMove(event.move);
+        const targetInfo = event.target;
         let targetRefs: string[] | undefined;
         let targetSpecies: string[] | undefined;
-        if (targetRaw) {
-          const targetInfo = parsePokemonRef(targetRaw);
+        if (targetInfo) {
           const targetMon = ctx.pokemon.get(targetInfo.ref);
           targetRefs = [targetInfo.ref];
           targetSpecies = [targetMon?.species || targetInfo.nickname || targetInfo.ref];
@@ -903,23 +1505,43 @@ function parseLog(ctx: ParseContext, log: string) {
         const actor = getOrCreatePokemon(ctx, ref, side);
         if (nickname) actor.nickname = nickname;
 
+        // Name Max, G-Max and status Z-Moves the way PS displays them
+        const isZEffect = 'zeffect' in event.extras.tags;
+        if (isZEffect) {
+          move = getZMoveName(move);
+        } else if (actor.volatiles.has('Dynamax')) {
+          move = getMaxMoveName(move, actor.species, Boolean(actor.gigantamax));
+        }
+        if (ctx.pendingZPower.has(ref)) {
+          ctx.pendingZPower.delete(ref);
+          recordGimmick(ctx, ref, 'zmove', `${ctx.t.messages.gimmicks.zmove} ${pokemonName(ctx, actor)} → ${ctx.t.move(move)}`, move);
+        }
+
         // Track recent moves for field start suppression
         ctx.recentMoves.push({ ref, move });
+        ctx.pendingHitMarkers.clear();
+        ctx.lastHit = undefined;
 
         // Get display names with (opp) if needed at action creation time
         let actorDisplayName = getPokemonDisplayName(ctx, ref);
 
         // Check if this Pokémon just woke up
         if (ctx.pendingWakeups.has(ref)) {
-          actorDisplayName = `${actorDisplayName} (woke up)`;
+          actorDisplayName = withMarker(ctx, actorDisplayName, 'wokeUp');
           ctx.pendingWakeups.delete(ref);
         }
 
+        // Check if this Pokémon just snapped out of confusion
+        if (ctx.pendingConfusionEnds.has(ref)) {
+          actorDisplayName = withMarker(ctx, actorDisplayName, 'noLongerConfused');
+          ctx.pendingConfusionEnds.delete(ref);
+        }
+
         const targetDisplayNames = targetRefs?.map(tRef => getPokemonDisplayName(ctx, tRef));
 
-        // Check for spread move before extras are simplified (since [spread] gets filtered out)
-        const isSpread = parts.slice(4).some(part => part.includes('[spread]'));
-        const extras = parseExtras(parts, 4);
+        // [spread] has no label, so it's read from the tags
+        const isSpread = 'spread' in event.extras.tags;
+        const extras = event.extras.labels.filter(extra => extra !== 'zeffect');
 
         const action: ActionSummary = {
           type: "move",
@@ -927,8 +1549,11 @@ function parseLog(ctx: ParseContext, log: string) {
           actorName: actorDisplayName,
           actorSpecies: actor.species,
           actorIconId: actor.iconId,
+          actorTransformSpecies: actor.transformedInto?.species,
+          actorTransformIconId: actor.transformedInto?.iconId,
           side,
-          verb: move,
+          verb: ctx.t.move(move),
+          move,
           targetRefs,
           targetNames: targetDisplayNames,
           targetSpecies,
@@ -943,27 +1568,27 @@ function parseLog(ctx: ParseContext, log: string) {
         break;
       }
       case "cant": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const reason = parts[2];
-        const move = parts[3] ? ` while using ${prettifyMove(parts[3])}` : "";
-        const message = reason === "slp" ? "is asleep" : `can't move (${reason}${move})`;
+        const { ref } = event.pokemon;
+        const reason = event.reason;
+        const move = event.move ? ctx.t.move(prettifyMove(event.move)) : undefined;
+        const message = reason === "slp" ? ctx.t.messages.isAsleep : ctx.t.messages.cantMove(reason, move);
         addNoteAction(ctx, ref, message);
         break;
       }
       case "-damage":
       case "-heal": {
-        const { ref } = parsePokemonRef(parts[1]);
+        const { ref } = event.pokemon;
         const mon = ctx.pokemon.get(ref) || getOrCreatePokemon(ctx, ref, resolveSide(ref));
-        const hpRaw = parts[2];
-        const hpStatus = parseHPStatus(hpRaw);
+        const hpStatus = event.hp;
         const previous = mon.lastDisplayHP;
-        const extras = parseExtras(parts, 3).filter(Boolean);
+        const extras = event.extras.labels;
         const isEOT = extras.some(isEndOfTurnSource);
 
         // Always format HP without status - status only shown in extras like (brn)
         const formatted = formatHPPercentageOnly(hpStatus);
 
         mon.lastDisplayHP = formatted;
+        mon.hpPercent = getHPPercent(hpStatus);
         mon.status = hpStatus.status;
         mon.fainted = hpStatus.fainted;
 
@@ -976,21 +1601,42 @@ function parseLog(ctx: ParseContext, log: string) {
         const displayPrevious = previous?.replace(/\s+(BRN|PSN|PAR|SLP|FRZ|TOX)\s*$/i, '') || previous;
 
         const change = displayPrevious && displayPrevious !== formatted ? `${displayPrevious} -> ${formatted}` : formatted;
-        const segments = [change];
-        if (extras.length) {
-          segments.push(`(${extras.join('; ')})`);
+        const markers = event.type === "-damage" && !isEOT ? takeHitMarkers(ctx, ref) : [];
+        const tag = hpStatus.fainted ? 'ko' : isEOT ? 'residual' : undefined;
+        const detail = detailWithIcon(ctx, ref, formatDamageBody(ctx, change, markers, extras), tag);
+        appendDetail(ctx, detail, isEOT);
+
+        // Remember direct hits so a trailing -ohko can be attached to them
+        if (event.type === "-damage" && !extras.length) {
+          ctx.lastHit = { ref, change, markers, extras, detail };
         }
-        const body = segments.join(' ');
-        appendDetail(ctx, detailWithIcon(ctx, ref, body), isEOT);
+        break;
+      }
+      case "-crit":
+      case "-supereffective":
+      case "-resisted": {
+        const { ref } = event.pokemon;
+        const marker = event.type === "-crit" ? "crit" : event.type === "-supereffective" ? "SE" : "resisted";
+        addHitMarker(ctx, ref, marker);
+        break;
+      }
+      case "-ohko": {
+        // -ohko has no target; it follows the damage line of the Pokémon it KO'd
+        const hit = ctx.lastHit;
+        if (!hit) break;
+        hit.markers = [...hit.markers, "OHKO"];
+        Object.assign(hit.detail, { body: formatDamageBody(ctx, hit.change, hit.markers, hit.extras) });
         break;
       }
       case "-boost":
       case "-unboost": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const stat = parts[2].toUpperCase();
-        const amount = Number(parts[3]);
-        const direction = tag === "-boost" ? "+" : "-";
-        const extras = parseExtras(parts, 4).filter(Boolean);
+        const { ref } = event.pokemon;
+        const stat = ctx.t.stat(event.stat);
+        const amount = event.amount;
+        const direction = event.type === "-boost" ? "+" : "-";
+        const extras = event.extras.labels;
+        const mon = ctx.pokemon.get(ref) || getOrCreatePokemon(ctx, ref, resolveSide(ref));
+        setBoost(mon, event.stat, (mon.boosts[event.stat] ?? 0) + (direction === "+" ? amount : -amount));
 
         // Check if this boost belongs to a pending ability boost
         if (ctx.pendingAbilityBoost && !extras.length) {
@@ -1017,11 +1663,45 @@ function parseLog(ctx: ParseContext, log: string) {
         }
         break;
       }
+      case "-setboost": {
+        const mon = ctx.pokemon.get(event.pokemon.ref);
+        if (mon) setBoost(mon, event.stat, event.amount);
+        break;
+      }
+      case "-clearboost": {
+        const mon = ctx.pokemon.get(event.pokemon.ref);
+        if (mon) mon.boosts = {};
+        break;
+      }
+      case "-clearallboost": {
+        for (const mon of ctx.pokemon.values()) mon.boosts = {};
+        break;
+      }
+      case "-clearnegativeboost": {
+        const mon = ctx.pokemon.get(event.pokemon.ref);
+        if (!mon) break;
+        for (const [stat, stage] of Object.entries(mon.boosts)) {
+          if (stage < 0) delete mon.boosts[stat];
+        }
+        break;
+      }
+      case "-invertboost": {
+        const mon = ctx.pokemon.get(event.pokemon.ref);
+        if (!mon) break;
+        for (const [stat, stage] of Object.entries(mon.boosts)) setBoost(mon, stat, -stage);
+        break;
+      }
+      case "-copyboost": {
+        const mon = ctx.pokemon.get(event.pokemon.ref);
+        const source = ctx.pokemon.get(event.target.ref);
+        if (mon && source) mon.boosts = { ...source.boosts };
+        break;
+      }
       case "-status": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const status = parts[2].toUpperCase();
-        const extras = parseExtras(parts, 3);
-        const detail = `${status}${formatExtras(extras)}`;
+        const { ref } = event.pokemon;
+        const status = event.status.toUpperCase();
+        const extras = event.extras.labels;
+        const detail = `${ctx.t.messages.statusLabels[event.status] ?? status}${formatExtras(extras)}`;
         const mon = ctx.pokemon.get(ref);
         if (mon) mon.status = status;
 
@@ -1031,37 +1711,36 @@ function parseLog(ctx: ParseContext, log: string) {
         break;
       }
       case "-curestatus": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const status = parts[2].toUpperCase();
+        const { ref } = event.pokemon;
+        const status = event.status.toUpperCase();
         if (status === "SLP") {
           // Track wakeup to be shown on next move action
           ctx.pendingWakeups.add(ref);
         } else {
           // For other status conditions, show cure detail
-          appendDetail(ctx, detailWithIcon(ctx, ref, `Cured ${status}`));
+          const label = ctx.t.messages.statusLabels[event.status] ?? status;
+          appendDetail(ctx, detailWithIcon(ctx, ref, ctx.t.messages.cured(label)));
         }
         const mon = ctx.pokemon.get(ref);
         if (mon) mon.status = undefined;
         break;
       }
       case "-ability": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const ability = parts[2];
-        const fourthParam = parts[3];
+        const { ref } = event.pokemon;
+        const ability = event.ability;
 
         // If this is a boost ability, start tracking to collect subsequent boosts
-        if (fourthParam === 'boost') {
+        if (event.extras.args[0] === 'boost') {
           finalizePendingAbilityBoost(ctx); // Finalize any previous pending boost
           finalizePendingTrickItems(ctx); // Finalize any pending Trick items
           ctx.pendingAbilityBoost = { ref, ability, boosts: [] };
         } else {
           // Regular ability announcement
           const mon = ctx.pokemon.get(ref);
-          const pokemonName = mon?.nickname || mon?.species || ref;
-          const extras = parseExtras(parts, 3).filter(Boolean);
+          const extras = event.extras.labels;
 
-          const possessive = pokemonName.endsWith('s') ? `${pokemonName}'` : `${pokemonName}'s`;
-          const detail = extras.length ? `${possessive} ${ability} (${extras.join('; ')})` : `${possessive} ${ability}`;
+          const announcement = ctx.t.messages.possessive(mon ? pokemonName(ctx, mon) : ref, ability);
+          const detail = extras.length ? `${announcement} (${extras.join('; ')})` : announcement;
 
           if (ctx.leadPhase || ctx.currentTurn.turn === 1 && ctx.currentTurn.actions.length === 0) {
             pushHeaderEvent(ctx, detail);
@@ -1072,9 +1751,9 @@ function parseLog(ctx: ParseContext, log: string) {
         break;
       }
       case "-item": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const item = parts[2];
-        const extras = parseExtras(parts, 3);
+        const { ref } = event.pokemon;
+        const item = event.item;
+        const extras = event.extras.labels;
 
         // Special handling for Trick - collect items and format together
         const isTrick = extras.some(e => e.toLowerCase().includes('trick'));
@@ -1087,44 +1766,39 @@ function parseLog(ctx: ParseContext, log: string) {
           break;
         }
 
-        appendDetail(ctx, detailWithIcon(ctx, ref, `Item gained: ${item}${formatExtras(extras)}`));
+        appendDetail(ctx, detailWithIcon(ctx, ref, `${ctx.t.messages.gainedItem(ctx.t.item(item))}${formatExtras(extras)}`));
         break;
       }
       case "-enditem": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const item = parts[2];
-        appendDetail(ctx, detailWithIcon(ctx, ref, `lost ${item}`));
+        const { ref } = event.pokemon;
+        appendDetail(ctx, detailWithIcon(ctx, ref, ctx.t.messages.lostItem(ctx.t.item(event.item))));
         break;
       }
       case "-fieldstart": {
-        const source = parts[1];
-        const fieldName = normalizeFieldName(source);
+        const fieldName = normalizeFieldName(event.effect);
+        // A new terrain replaces the old one without a -fieldend
+        if (/terrain$/i.test(fieldName)) {
+          for (const id of ctx.fieldEffects.keys()) {
+            if (id.endsWith('terrain')) ctx.fieldEffects.delete(id);
+          }
+        }
+        ctx.fieldEffects.set(toId(fieldName), { name: fieldName, expiresAfter: effectExpiry(ctx, getFieldDuration(fieldName)), layers: 1 });
 
         // Check if from an ability
-        if (parts[2] && parts[2].includes('[from] ability:')) {
-          const abilityMatch = parts[2].match(/ability:\s*(.+)/);
-          const ability = abilityMatch ? abilityMatch[1].trim() : '';
-
-          if (ability && parts[3] && parts[3].includes('[of]')) {
-            const ofMatch = parts[3].match(/\[of\]\s*(.+)/);
-            const refRaw = ofMatch ? ofMatch[1].trim() : '';
-
-            if (refRaw) {
-              const { ref } = parsePokemonRef(refRaw);
-              const mon = ctx.pokemon.get(ref);
-              const pokemonName = mon?.nickname || mon?.species || refRaw;
-              const possessive = pokemonName.endsWith('s') ? `${pokemonName}'` : `${pokemonName}'s`;
+        const { from, of: source } = event.extras;
+        if (from?.kind === 'ability' && source) {
+          const { ref } = source;
+          const mon = ctx.pokemon.get(ref);
+          const announcement = ctx.t.messages.possessive(mon ? pokemonName(ctx, mon) : source.nickname || ref, from.name);
 
-              // Check if the last action was a switch by this Pokemon
-              if (ctx.currentAction?.type === 'switch' && ctx.currentAction.actorRef === ref) {
-                // Merge into switch action verb
-                ctx.currentAction.verb = `${ctx.currentAction.verb}; ${possessive} ${ability}; ${fieldName} starts`;
-              } else {
-                pushHeaderEvent(ctx, `${possessive} ${ability}; ${fieldName} starts`);
-              }
-              break;
-            }
+          // Check if the last action was a switch by this Pokemon
+          if (ctx.currentAction?.type === 'switch' && ctx.currentAction.actorRef === ref) {
+            // Merge into switch action verb
+            ctx.currentAction.verb = `${ctx.currentAction.verb}; ${announcement}; ${ctx.t.messages.effectStarts(fieldName)}`;
+          } else {
+            pushHeaderEvent(ctx, `${announcement}; ${ctx.t.messages.effectStarts(fieldName)}`);
           }
+          break;
         }
 
         // Check if implied by recent move (e.g., Trick Room move implies Trick Room field)
@@ -1136,55 +1810,48 @@ function parseLog(ctx: ParseContext, log: string) {
         }
 
         // Default format
-        pushHeaderEvent(ctx, `${fieldName} starts`);
+        pushHeaderEvent(ctx, ctx.t.messages.effectStarts(fieldName));
         break;
       }
       case "-fieldend": {
-        const source = parts[1];
-        const fieldName = normalizeFieldName(source);
+        const fieldName = normalizeFieldName(event.effect);
+        ctx.fieldEffects.delete(toId(fieldName));
         // Collect field ends to be shown together before end-of-turn damage
         ctx.pendingFieldEnds.push({ effect: fieldName });
         break;
       }
       case "-weather": {
-        const weather = parts[1];
-        const isUpkeep = parts[2] && parts[2].includes('upkeep');
+        const weather = event.weather;
+        const isUpkeep = 'upkeep' in event.extras.tags;
         const normalizedWeather = normalizeWeatherName(weather);
 
         // Only announce weather changes, not upkeep
         if (weather === 'none') {
           if (ctx.currentWeather) {
             const currentNormalized = normalizeWeatherName(ctx.currentWeather);
-            pushHeaderEvent(ctx, `${currentNormalized} ends`);
+            pushHeaderEvent(ctx, ctx.t.messages.effectEnds(currentNormalized));
           }
           ctx.currentWeather = undefined;
+          ctx.weatherExpiresAfter = undefined;
         } else if (!isUpkeep) {
           if (weather !== ctx.currentWeather) {
             // Check if weather is from an ability
-            let detail = `${normalizedWeather} starts`;
+            let detail = ctx.t.messages.effectStarts(normalizedWeather);
             let isSwitchAbility = false;
 
-            if (parts[2] && parts[2].includes('[from] ability:')) {
-              const abilityMatch = parts[2].match(/ability:\s*(.+)/);
-              const ability = abilityMatch ? abilityMatch[1].trim() : '';
-              if (ability && parts[3] && parts[3].includes('[of]')) {
-                const ofMatch = parts[3].match(/\[of\]\s*(.+)/);
-                const refRaw = ofMatch ? ofMatch[1].trim() : '';
-                if (refRaw) {
-                  const { ref } = parsePokemonRef(refRaw);
-                  const mon = ctx.pokemon.get(ref);
-                  const pokemonName = mon?.nickname || mon?.species || refRaw;
-                  const possessive = pokemonName.endsWith('s') ? `${pokemonName}'` : `${pokemonName}'s`;
-
-                  // Check if the last action was a switch by this Pokemon
-                  if (ctx.currentAction?.type === 'switch' && ctx.currentAction.actorRef === ref) {
-                    // Merge into switch action verb
-                    ctx.currentAction.verb = `${ctx.currentAction.verb}; ${possessive} ${ability}; ${normalizedWeather} starts`;
-                    isSwitchAbility = true;
-                  } else {
-                    detail = `${possessive} ${ability}; ${normalizedWeather} starts`;
-                  }
-                }
+            const { from, of: source } = event.extras;
+            if (from?.kind === 'ability' && source) {
+              const { ref } = source;
+              const mon = ctx.pokemon.get(ref);
+              const announcement = ctx.t.messages.possessive(mon ? pokemonName(ctx, mon) : source.nickname || ref, from.name);
+
+              // Check if the last action was a switch by this Pokemon
+              if (ctx.currentAction?.type === 'switch' && ctx.currentAction.actorRef === ref) {
+                // Merge into switch action verb
+                ctx.currentAction.verb = `${ctx.currentAction.verb}; ${announcement}; ${ctx.t.messages.effectStarts(normalizedWeather)}`;
+                isSwitchAbility = true;
+              } else {
+                detail = `${announcement}; ${ctx.t.messages.effectStarts(normalizedWeather)}`;
               }
             }
 
@@ -1193,50 +1860,59 @@ function parseLog(ctx: ParseContext, log: string) {
               pushHeaderEvent(ctx, detail);
             }
             ctx.currentWeather = weather;
+            ctx.weatherExpiresAfter = effectExpiry(ctx, getWeatherDuration(weather));
           }
         }
         break;
       }
       case "-sidestart": {
-        const sideRef = resolveSide(parts[1]);
-        const condition = parts[2];
-        const conditionId = toId(condition);
+        const sideRef = event.side;
+        const conditionId = toId(event.condition);
 
         // Track side condition but don't announce it (only announce on expiration)
-        ctx.sideConditions[sideRef].add(conditionId);
+        const existing = ctx.sideConditions[sideRef].get(conditionId);
+        if (existing) {
+          existing.layers += 1;
+        } else {
+          const name = event.condition.replace(/^move:\s*/i, '');
+          ctx.sideConditions[sideRef].set(conditionId, { name, expiresAfter: effectExpiry(ctx, getSideConditionDuration(name)), layers: 1 });
+        }
         break;
       }
       case "-sideend": {
-        const sideRef = resolveSide(parts[1]);
-        const condition = parts[2];
+        const sideRef = event.side;
+        const condition = event.condition;
         const conditionId = toId(condition);
 
         // Only announce if was active
         if (ctx.sideConditions[sideRef].has(conditionId)) {
-          pushHeaderEvent(ctx, `Side condition ended: ${sideRef} -> ${condition}`);
+          pushHeaderEvent(ctx, ctx.t.messages.sideConditionEnded(sideRef, condition));
           ctx.sideConditions[sideRef].delete(conditionId);
         }
         break;
       }
       case "-terrain": {
-        const terrain = parts[1];
-        pushHeaderEvent(ctx, `Terrain: ${terrain}`);
+        pushHeaderEvent(ctx, ctx.t.messages.terrain(event.terrain));
         break;
       }
       case "-message": {
-        const message = parts.slice(1).join(' ');
+        const message = event.message;
         if (/forfeited\.$/i.test(message)) {
-          ctx.resultNote = 'Forfeit';
           const forfeiter = message.replace(/\s*forfeited\.$/i, '');
+          ctx.forfeits.push(forfeiter);
           if (!ctx.loser) ctx.loser = forfeiter;
+        } else if (/lost due to inactivity\.?$/i.test(message)) {
+          const inactive = message.replace(/\s*lost due to inactivity\.?$/i, '');
+          ctx.timeouts.push(inactive);
+          if (!ctx.loser) ctx.loser = inactive;
         } else if (message && !/battle timer is on/i.test(message)) {
           appendDetail(ctx, message);
         }
         break;
       }
       case "-singleturn": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const effect = parts[2];
+        const { ref } = event.pokemon;
+        const effect = event.effect;
 
         // Track Protect for display in action targets
         if (toId(effect).includes('protect') || effect.toLowerCase().includes('protect')) {
@@ -1247,7 +1923,7 @@ function parseLog(ctx: ParseContext, log: string) {
         // Normalize effect by removing "move: " prefix
         const normalizedEffect = effect.replace(/^move:\s*/i, '');
         const isSameAsCurrentMove = ctx.currentAction?.type === "move" &&
-          toId(normalizedEffect) === toId(ctx.currentAction.verb);
+          toId(normalizedEffect) === toId(ctx.currentAction.move ?? '');
 
         if (!isSameAsCurrentMove) {
           appendDetail(ctx, detailWithIcon(ctx, ref, effect));
@@ -1255,20 +1931,18 @@ function parseLog(ctx: ParseContext, log: string) {
         break;
       }
       case "-activate": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const effect = parts[2];
+        const { ref } = event.pokemon;
+        const effect = event.effect;
 
         // Special handling for Protect - append to target name in current action
         if (toId(effect).includes('protect') || effect.toLowerCase().includes('protect')) {
-          if (ctx.currentAction && ctx.currentAction.targetRefs) {
-            const targetIdx = ctx.currentAction.targetRefs.indexOf(ref);
-            if (targetIdx !== -1 && ctx.currentAction.targetNames) {
-              const currentName = ctx.currentAction.targetNames[targetIdx];
-              if (currentName && !currentName.includes('(Protect)')) {
-                ctx.currentAction.targetNames[targetIdx] = `${currentName} (Protect)`;
-              }
-            }
-          }
+          markTarget(ctx, ref, 'protect');
+          break;
+        }
+
+        // Substitute absorbing a hit is a volatile interaction, not an activation
+        if (toId(effect) === 'movesubstitute' || toId(effect) === 'substitute') {
+          appendDetail(ctx, detailWithIcon(ctx, ref, formatDamageBody(ctx, ctx.t.messages.substituteDamaged, takeHitMarkers(ctx, ref), [])));
           break;
         }
 
@@ -1277,65 +1951,166 @@ function parseLog(ctx: ParseContext, log: string) {
           break;
         }
 
-        const extras = parseExtras(parts, 3);
-        const body = `Activates ${effect}${formatExtras(extras)}`;
+        const extras = event.extras.labels;
+        const body = `${ctx.t.messages.activates(effect)}${formatExtras(extras)}`;
         appendDetail(ctx, detailWithIcon(ctx, ref, body));
         break;
       }
       case "-fail": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const reason = parseExtras(parts, 2).join('; ');
-        const body = `Fails${reason ? ` (${reason})` : ''}`;
+        const { ref } = event.pokemon;
+        const reason = event.extras.labels.join('; ');
+        const body = ctx.t.messages.fails(reason || undefined);
         appendDetail(ctx, detailWithIcon(ctx, ref, body));
         break;
       }
       case "-miss": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const targetInfo = parts[2] ? parsePokemonRef(parts[2]) : null;
-        const targetName = targetInfo?.nickname || targetInfo?.ref || parts[2] || "";
-        const body = `Misses${targetName ? ` ${targetName}` : ""}`;
+        const { ref } = event.pokemon;
+        const targetName = event.target?.nickname || event.target?.ref || "";
+        const body = ctx.t.messages.misses(targetName || undefined);
         appendDetail(ctx, detailWithIcon(ctx, ref, body));
         break;
       }
       case "-immune": {
-        const { ref } = parsePokemonRef(parts[1]);
+        const { ref } = event.pokemon;
 
         // Append (immune) to target name in current action
-        if (ctx.currentAction && ctx.currentAction.targetRefs) {
-          const targetIdx = ctx.currentAction.targetRefs.indexOf(ref);
-          if (targetIdx !== -1 && ctx.currentAction.targetNames) {
-            const currentName = ctx.currentAction.targetNames[targetIdx];
-            if (currentName && !currentName.includes('(immune)')) {
-              ctx.currentAction.targetNames[targetIdx] = `${currentName} (immune)`;
+        markTarget(ctx, ref, 'immune');
+        break;
+      }
+      case "-start": {
+        const { ref } = event.pokemon;
+        const effect = event.effect;
+        const name = normalizeVolatileName(effect);
+        const mon = ctx.pokemon.get(ref) || getOrCreatePokemon(ctx, ref, resolveSide(ref));
+        const isSilent = 'silent' in event.extras.tags;
+        const extras = event.extras.labels.filter(extra => extra !== 'silent');
+
+        if (name === 'Dynamax') {
+          mon.volatiles.add(name);
+          mon.gigantamax = event.extras.args[0] === 'Gmax';
+          const label = mon.gigantamax ? ctx.t.messages.gigantamax : ctx.t.messages.gimmicks.dynamax;
+          const turns = ctx.t.messages.dynamaxTurns(DYNAMAX_TURNS);
+          recordGimmick(ctx, ref, 'dynamax', `${label} ${pokemonName(ctx, mon)} (${turns})`, mon.gigantamax ? 'Gigantamax' : undefined);
+          break;
+        }
+
+        // Perish counts replace each other rather than stacking
+        if (name.startsWith('Perish ')) {
+          for (const volatile of mon.volatiles) {
+            if (volatile.startsWith('Perish ')) mon.volatiles.delete(volatile);
+          }
+        }
+        mon.volatiles.add(name);
+
+        // Don't show the volatile if it's the same as the current move (e.g., Substitute, Taunt)
+        const isSameAsCurrentMove = ctx.currentAction?.type === "move" &&
+          toId(name) === toId(ctx.currentAction.move ?? '');
+        if (isSilent && !name.startsWith('Perish ')) break;
+        if (isSameAsCurrentMove) break;
+
+        // Perish counts after the initial 3 tick down during the residual phase
+        const isPerishCountdown = /^Perish [0-2]$/.test(name);
+        appendDetail(ctx, detailWithIcon(ctx, ref, `${name}${formatExtras(extras)}`), isPerishCountdown);
+        break;
+      }
+      case "-end": {
+        const { ref } = event.pokemon;
+        const effect = event.effect;
+        const name = normalizeVolatileName(effect);
+        const mon = ctx.pokemon.get(ref);
+        if (mon) {
+          if (name === 'Dynamax') mon.gigantamax = false;
+          for (const volatile of mon.volatiles) {
+            if (toId(volatile) === toId(name) || (name.startsWith('Perish') && volatile.startsWith('Perish'))) {
+              mon.volatiles.delete(volatile);
             }
           }
         }
+
+        // Silent ends happen on switch-out or as a side effect of other lines
+        if ('silent' in event.extras.tags) break;
+
+        // Confusion ends right before the move line, so show it on the next move like a wakeup
+        if (name === 'Confusion') {
+          ctx.pendingConfusionEnds.add(ref);
+          break;
+        }
+
+        const extras = event.extras.labels;
+        const { messages } = ctx.t;
+        const body = name === 'Substitute' ? messages.substituteFaded : name === 'Illusion' ? messages.illusionBroken : messages.effectEnds(name);
+        appendDetail(ctx, detailWithIcon(ctx, ref, `${body}${formatExtras(extras)}`), isEndOfTurnVolatile(effect));
         break;
       }
       case "faint": {
-        const { ref } = parsePokemonRef(parts[1]);
+        const { ref } = event.pokemon;
         const mon = ctx.pokemon.get(ref);
         if (mon) {
+          mon.volatiles.clear();
+          mon.boosts = {};
+          mon.hpPercent = 0;
           mon.fainted = true;
           ctx.faintedThisTurn.add(ref);
+          ctx.knockouts.push({ side: mon.side, pokemon: mon.species, turn: ctx.currentTurn.turn });
         }
         // Don't append "faints" detail - it's redundant with "KO" in HP display
         break;
       }
       case "-terastallize": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const type = parts[2];
+        const { ref } = event.pokemon;
+        const type = event.teraType;
         const mon = ctx.pokemon.get(ref);
-        const name = mon?.nickname || mon?.species || parts[1];
-        // Always add to headerEvents, regardless of whether actions have started
-        ctx.currentTurn.headerEvents.push(`Terastallize ${name} → ${type}`);
+        const name = mon ? pokemonName(ctx, mon) : event.pokemon.nickname || ref;
+        recordGimmick(ctx, ref, 'tera', `${ctx.t.messages.gimmicks.tera} ${name} → ${ctx.t.type(type)}`, type);
+        break;
+      }
+      case "-transform": {
+        const { ref } = event.pokemon;
+        const targetInfo = event.target;
+        const mon = ctx.pokemon.get(ref);
+        const targetMon = targetInfo ? ctx.pokemon.get(targetInfo.ref) : undefined;
+        if (!mon || !targetMon) break;
+        mon.transformedInto = { species: targetMon.species, iconId: targetMon.iconId };
+
+        const extras = event.extras.labels;
+        const detail = detailWithIcon(ctx, ref, `${ctx.t.messages.transformsInto(ctx.t.species(targetMon.species))}${formatExtras(extras)}`);
+        if (ctx.leadPhase || ctx.currentTurn.turn === 1 && ctx.currentTurn.actions.length === 0) {
+          pushHeaderEvent(ctx, renderDetailText(detail));
+        } else if (ctx.currentAction?.type === "move" && toId(ctx.currentAction.move ?? '') === 'transform') {
+          // The Transform move already names its target
+          break;
+        } else {
+          appendDetail(ctx, detail);
+        }
+        break;
+      }
+      case "-mega":
+      case "-primal":
+      case "-burst": {
+        // detailschange to the new forme is logged just before these lines
+        const { ref } = event.pokemon;
+        const mon = ctx.pokemon.get(ref);
+        const name = mon ? pokemonName(ctx, mon) : event.pokemon.nickname || ref;
+        const kind: GimmickKind = event.type === "-mega" ? 'mega' : event.type === "-primal" ? 'primal' : 'ultraburst';
+        const forme = event.type === "-burst" && event.species ? event.species : mon?.species;
+        const formeName = forme && ctx.t.species(forme);
+        const label = formeName && formeName !== name
+          ? `${ctx.t.messages.gimmicks[kind]} ${name} → ${formeName}`
+          : `${ctx.t.messages.gimmicks[kind]} ${name}`;
+        recordGimmick(ctx, ref, kind, label, forme);
+        break;
+      }
+      case "-zpower": {
+        // The Z-Move itself is the next move line from this Pokémon
+        const { ref } = event.pokemon;
+        ctx.pendingZPower.add(ref);
         break;
       }
       case "detailschange":
-      case "formechange": {
-        const { ref } = parsePokemonRef(parts[1]);
-        const species = parts[2];
-        updatePokemonSpecies(ctx, ref, species);
+      case "-formechange": {
+        const { ref } = event.pokemon;
+        // Forme changes (Mega, Primal, Ultra Burst...) aren't new team members
+        updatePokemonSpecies(ctx, ref, event.details.species, false);
         break;
       }
       default:
@@ -1346,136 +2121,343 @@ function parseLog(ctx: ParseContext, log: string) {
 
 function resolveLoser(ctx: ParseContext): string | undefined {
   if (!ctx.loser && !ctx.winner) return undefined;
-  const p1Id = toId(ctx.players.p1);
-  const p2Id = toId(ctx.players.p2);
   const loserId = ctx.loser ? toId(ctx.loser) : undefined;
   if (!loserId && ctx.winner) {
+    // A single loser can only be inferred when there are exactly two players
+    if (ctx.sides.length !== 2) return undefined;
     const winnerId = toId(ctx.winner);
-    return winnerId === p1Id ? ctx.players.p2 : ctx.players.p1;
+    const [first, second] = ctx.sides;
+    return winnerId === toId(getPlayerName(ctx, first)) ? getPlayerName(ctx, second) : getPlayerName(ctx, first);
   }
-  return loserId === p1Id ? ctx.players.p1 : loserId === p2Id ? ctx.players.p2 : ctx.loser;
+  const loserSide = ctx.sides.find(side => toId(getPlayerName(ctx, side)) === loserId);
+  return loserSide ? getPlayerName(ctx, loserSide) : ctx.loser;
 }
 
-function renderSummary(ctx: ParseContext): DualFormat {
-  const htmlParts: string[] = [];
-  const textParts: string[] = [];
-  const { p1, p2 } = ctx.players;
-  const p1Id = toId(p1);
-  const p2Id = toId(p2);
-  const winnerId = ctx.winner ? toId(ctx.winner) : undefined;
-  const loserId = ctx.loser ? toId(ctx.loser) : undefined;
-  const inferredLoserId = !loserId && winnerId ? (winnerId === p1Id ? p2Id : p1Id) : loserId;
-  const p1Tag = winnerId === p1Id ? "[W] " : inferredLoserId === p1Id ? "[L] " : "";
-  const p2Tag = winnerId === p2Id ? "[W] " : inferredLoserId === p2Id ? "[L] " : "";
-  const note = ctx.resultNote ? ` (${ctx.resultNote})` : "";
-  const header = `<div><strong>${p1Tag}${p1}</strong> vs <strong>${p2Tag}${p2}</strong>${ctx.formatName ? ` — ${ctx.formatName}` : ""}${note}</div>`;
-  htmlParts.push(header);
-  textParts.push(`${p1Tag}${p1} vs ${p2Tag}${p2}${ctx.formatName ? ` — ${ctx.formatName}` : ""}${note}`);
-
-  const teamLine = (side: "p1" | "p2"): DualFormat => {
-    const names = ctx.teams[side];
-    if (!names.length) return { html: "", text: "" };
-    const html = names
-      .map((species) => {
-        const iconId = toIconId(species) || DEFAULT_ICON_ID;
-        return iconHTML(iconId, species);
-      })
-      .join("");
-    const text = names.join(" · ");
-    return { html, text };
-  };
+function resolveResult(ctx: ParseContext): BattleResult {
+  const turn = ctx.currentTurn.turn;
+  if (ctx.winner) {
+    const loser = resolveLoser(ctx);
+    if (ctx.timeouts.length) return { kind: "timer", turn, winner: ctx.winner, loser, note: "Timer" };
+    if (ctx.forfeits.length) return { kind: "forfeit", turn, winner: ctx.winner, loser, note: "Forfeit" };
+    return { kind: "win", turn, winner: ctx.winner, loser };
+  }
+  // Every player forfeiting ends the battle without a winner (PS logs it as a tie)
+  if (ctx.forfeits.length >= ctx.sides.length) {
+    return { kind: "forfeit", turn, note: "All players forfeited" };
+  }
+  if (ctx.tie) return { kind: "tie", turn, note: "Tie" };
+  return { kind: "incomplete", turn, note: "Incomplete" };
+}
+
+/** The result's note in the summary's language; `BattleResult.note` stays English for the API. */
+function resultNote(result: BattleResult, messages: Messages): string | undefined {
+  if (!result.note || result.kind === "win") return undefined;
+  return result.kind === "forfeit" && !result.winner ? messages.notes.allForfeited : messages.notes[result.kind];
+}
 
-  const p1Team = teamLine("p1");
-  const p2Team = teamLine("p2");
-  if (p1Team.html || p2Team.html) {
-    htmlParts.push(`<div>${p1Team.html}&nbsp;&nbsp;vs&nbsp;&nbsp;${p2Team.html}</div>`);
-    textParts.push(`${p1Team.text} vs ${p2Team.text}`);
+function resultLine(ctx: ParseContext, result: BattleResult): string {
+  const { messages } = ctx.t;
+  const note = resultNote(result, messages);
+  const noteSuffix = note ? ` (${note})` : "";
+  // Told from a chosen side, the result is that side's win or loss
+  if (result.winner && ctx.perspective) {
+    const won = toId(result.winner) === toId(getPlayerName(ctx, ctx.perspective));
+    return `${won ? messages.won(result.turn) : messages.lost(result.turn)}${noteSuffix}`;
   }
+  if (result.winner) return `${messages.wins(result.winner, result.turn)}${noteSuffix}`;
+  if (result.kind === "incomplete") return messages.noResult(result.turn);
+  return `${messages.noWinner(result.turn)}${noteSuffix}`;
+}
+
+function openSheetLine(ctx: ParseContext, set: RevealedPokemon): string {
+  const { t } = ctx;
+  const traits = [set.ability, set.teraType && t.messages.teraType(t.type(set.teraType))].filter(Boolean);
+  const name = set.item ? `${t.species(set.species)} @ ${t.item(set.item)}` : t.species(set.species);
+  return `${name}${traits.length ? `, ${traits.join(', ')}` : ''}${set.moves.length ? `: ${set.moves.map(t.move).join(' / ')}` : ''}`;
+}
+
+function openSheetList(ctx: ParseContext, side: SideId): TitledList | undefined {
+  const sets = ctx.openSheets[side];
+  if (!sets?.length) return undefined;
+  const entries = sets.map((set) => ({ species: set.species, line: openSheetLine(ctx, set) }));
+  return { title: ctx.t.messages.teamSheet(getPlayerName(ctx, side)), entries };
+}
+
+function sideStats(ctx: ParseContext, side: SideId): PokemonBattleStats[] {
+  // Team order, rather than the order each Pokémon was first touched
+  const order = (stats: PokemonBattleStats) => ctx.teams[side].indexOf(stats.species);
+  return [...ctx.stats[side].values()].sort((a, b) => order(a) - order(b));
+}
+
+function collectStats(ctx: ParseContext): PokemonBattleStats[] {
+  return ctx.sides.flatMap((side) => sideStats(ctx, side));
+}
+
+function statsLine(ctx: ParseContext, entry: PokemonBattleStats, mvp: PokemonBattleStats | undefined): string {
+  return `${ctx.t.species(entry.species)}${entry === mvp ? ` ${markerText(ctx, 'mvp')}` : ''}: ${formatPokemonStats(entry, ctx.t.messages)}`;
+}
+
+function statsLists(ctx: ParseContext): TitledList[] {
+  const mvp = pickMvp(collectStats(ctx));
+  return viewSides(ctx).flatMap((side) => {
+    const stats = sideStats(ctx, side);
+    if (!stats.length) return [];
+    const entries = stats.map((entry) => ({ species: entry.species, line: statsLine(ctx, entry, mvp) }));
+    return [{ title: ctx.t.messages.statsTitle(getPlayerName(ctx, side)), entries }];
+  });
+}
+
+function sideTag(ctx: ParseContext, side: SideId): "" | "[W] " | "[L] " {
+  const playerId = toId(getPlayerName(ctx, side));
+  if (ctx.winner && toId(ctx.winner) === playerId) return "[W] ";
+  // Without an explicit loser, everyone but the winner lost
+  const forfeited = ctx.forfeits.some((name) => toId(name) === playerId);
+  const lost = forfeited || (ctx.loser ? toId(ctx.loser) === playerId : Boolean(ctx.winner));
+  return lost ? "[L] " : "";
+}
+
+/** Lays the battle out as a renderer-neutral document; html, text and Markdown are all rendered from it. */
+function buildSummaryDocument(
+  ctx: ParseContext,
+  verbosity: Verbosity,
+  turningPoints: TurningPoint[],
+  anchorPrefix = "",
+): SummaryDocument {
+  const result = resolveResult(ctx);
+  const doc: SummaryDocument = {
+    players: viewSides(ctx).map((side) => ({ side, name: getPlayerName(ctx, side), tag: sideTag(ctx, side) })),
+    format: ctx.formatName,
+    result: { line: resultLine(ctx, result), note: resultNote(result, ctx.t.messages), turn: result.turn },
+    turningPoints,
+    sheets: viewSides(ctx).flatMap((side) => openSheetList(ctx, side) ?? []),
+    leadEvents: [],
+    turns: [],
+    stats: statsLists(ctx),
+    messages: ctx.t.messages,
+    anchorPrefix,
+  };
+
+  // Open team sheets replace the preview team line for the sides that have them
+  const teams = viewSides(ctx).map((side) => teamNames(ctx, side).map((species) => ({
+    name: ctx.t.species(species),
+    species,
+    iconId: toIconId(species) || DEFAULT_ICON_ID,
+  })));
+  const allSheetsOpen = ctx.sides.every((side) => ctx.openSheets[side]);
+  if (!allSheetsOpen && teams.some((team) => team.length)) doc.teams = teams;
 
   // Extract lead entries from turn 0
   const leadTurn = ctx.turns.find(t => t.turn === 0);
   if (leadTurn && leadTurn.leadEntries.length > 0) {
-    const p1Leads = leadTurn.leadEntries.filter(e => e.side === 'p1');
-    const p2Leads = leadTurn.leadEntries.filter(e => e.side === 'p2');
-    const p1LeadsHtml = p1Leads.map(e => e.html).join("");
-    const p2LeadsHtml = p2Leads.map(e => e.html).join("");
-    const p1LeadsText = p1Leads.map(e => e.text).join(", ");
-    const p2LeadsText = p2Leads.map(e => e.text).join(", ");
-
-    if (p1LeadsHtml || p2LeadsHtml) {
-      htmlParts.push(`<div>${p1LeadsHtml}&nbsp;&nbsp;vs&nbsp;&nbsp;${p2LeadsHtml}</div>`);
-      textParts.push(`${p1LeadsText} vs ${p2LeadsText}`);
-    }
-
-    // Extract initial field effects (headerEvents from turn 0)
-    if (leadTurn.headerEvents.length > 0) {
-      for (const event of leadTurn.headerEvents) {
-        htmlParts.push(`<div>${event}</div>`);
-        textParts.push(event);
-      }
-    }
+    doc.leads = viewSides(ctx).map(side => leadTurn.leadEntries.filter(e => e.side === side).map(e => e.pokemon));
+    // Initial field effects and gimmicks (e.g. Primal Reversion) from turn 0
+    doc.leadEvents = [...leadTurn.gimmickEvents, ...leadTurn.headerEvents];
   }
 
-  // Render all turns (skip turn 0 as we've already handled it)
-  for (const turn of ctx.turns) {
-    if (turn.turn === 0) continue;
-    if (turn.actions.length === 0 && turn.headerEvents.length === 0 && turn.leadEntries.length === 0) {
-      continue;
-    }
-    const formatted = formatTurn(ctx, turn);
-    htmlParts.push(...formatted.html);
-    textParts.push(...formatted.text);
+  // Turn 0 is covered by the lead line above
+  doc.turns = ctx.turns
+    .filter((turn) => turn.turn !== 0 && hasTurnContent(turn))
+    .map((turn) => trimTurn(ctx, buildTurnNode(ctx, turn), verbosity))
+    .filter((turn) => verbosity === "full" || isNonEmptyTurn(turn));
+  return doc;
+}
+
+function isHighlight(detail: DetailNode): boolean {
+  switch (detail.kind) {
+    case "text":
+    case "pokemon":
+      return detail.tag === "ko" || detail.tag === "field";
+    case "switch":
+      return true;
+    case "group":
+      return detail.parts.some(isHighlight);
+    default:
+      return false;
   }
+}
 
-  // Add winner declaration as final line
-  if (ctx.winner) {
-    textParts.push(`${ctx.winner} Wins`);
+function isResidual(detail: DetailNode): detail is Extract<DetailNode, { kind: "pokemon" }> {
+  return detail.kind === "pokemon" && detail.tag === "residual";
+}
+
+function isNonEmptyTurn(turn: TurnNode): boolean {
+  return [turn.headerEvents, turn.gimmickEvents, turn.actions, turn.endEvents, turn.residual, turn.replacements].some((list) => list.length > 0);
+}
+
+/** Cuts a turn down to the requested verbosity. */
+function trimTurn(ctx: ParseContext, turn: TurnNode, verbosity: Verbosity): TurnNode {
+  if (verbosity === "highlights") {
+    // Moves only stay when they knocked something out, and then only with the KO
+    const keepHighlights = (action: ActionNode): ActionNode => ({ ...action, details: action.details.filter(isHighlight) });
+    return {
+      ...turn,
+      actions: turn.actions
+        .filter((action) => action.headline.kind !== "move" || action.details.some(isHighlight))
+        .map(keepHighlights),
+      endEvents: turn.endEvents.filter(isHighlight),
+      replacements: turn.replacements.map(keepHighlights),
+    };
+  }
+  if (verbosity === "standard") {
+    const residual: ResidualLine[] = viewSides(ctx)
+      .map((side) => ({
+        player: getPlayerName(ctx, side),
+        details: turn.endEvents.filter((detail) => isResidual(detail) && resolveSide(detail.ref) === side),
+      }))
+      .filter((line) => line.details.length > 0);
+    return { ...turn, endEvents: turn.endEvents.filter((detail) => !isResidual(detail)), residual };
   }
+  return turn;
+}
+
+function hasTurnContent(turn: TurnSummary): boolean {
+  return turn.actions.length > 0 || turn.headerEvents.length > 0 || turn.gimmickEvents.length > 0 || turn.leadEntries.length > 0;
+}
+
+function teamNames(ctx: ParseContext, side: SideId): string[] {
+  return ctx.openSheets[side]?.map((set) => set.species) ?? ctx.teams[side];
+}
 
+function sideMomentum(ctx: ParseContext, side: SideId, snapshot: TurnSnapshot): SideMomentum {
+  const board = snapshot.sides[side];
+  if (!board) return { remaining: 0, hp: 0 };
+  // Unknown HP (exact-HP formats seen from the other side) counts as full
+  const standing = [...board.active, ...board.bench.filter((mon) => mon.revealed && !mon.fainted)];
+  const seen = board.active.length + board.bench.filter((mon) => mon.revealed).length;
+  const brought = ctx.pickCount ?? ctx.teamSizes[side] ?? board.active.length + board.bench.length;
+  const unseen = Math.max(0, brought - seen);
   return {
-    html: htmlParts.join("\n"),
-    text: textParts.join("\n"),
+    remaining: standing.length + unseen,
+    hp: standing.reduce((sum, mon) => sum + (mon.hp ?? 100), 0) + unseen * 100,
   };
 }
 
-export function parseReplayData(data: ReplayJSON): SummarizedReplay {
+function buildMomentum(ctx: ParseContext): MomentumData {
+  // Each turn's snapshot is the board after the previous one; the last point is the final board
+  const boards = [...ctx.snapshots, takeSnapshot(ctx, ctx.currentTurn.turn + 1)];
+  const points: MomentumPoint[] = boards.map((snapshot) => {
+    const sides: MomentumPoint["sides"] = {};
+    for (const side of ctx.sides) sides[side] = sideMomentum(ctx, side, snapshot);
+    return { turn: snapshot.turn - 1, sides };
+  });
+  const markers: MomentumMarker[] = [
+    ...ctx.knockouts.map((ko) => ({ kind: "ko" as const, ...ko })),
+    ...ctx.gimmicks.map(({ kind, side, pokemon, turn }) => ({ kind, side, pokemon, turn })),
+  ];
+  const players: MomentumData["players"] = {};
+  // Ours first, so the chart's upper half is our lead
+  for (const side of viewSides(ctx)) players[side] = getPlayerName(ctx, side);
+  return { players, points, markers };
+}
+
+/** Momentum data plus its SVG chart, alongside the html/text summary. */
+function renderMomentum(ctx: ParseContext): MomentumData & { svg: string } {
+  const data = buildMomentum(ctx);
+  return { ...data, svg: renderMomentumChart(data, ctx.t) };
+}
+
+function buildLineups(ctx: ParseContext): SummarizedReplay["lineups"] {
+  const leadTurn = ctx.turns.find((turn) => turn.turn === 0);
+  const lineups: SummarizedReplay["lineups"] = {};
+  for (const side of ctx.sides) {
+    lineups[side] = {
+      leads: (leadTurn?.leadEntries ?? []).filter((entry) => entry.side === side).flatMap((entry) => entry.pokemon.species ?? []),
+      brought: sideStats(ctx, side).map((stats) => stats.species),
+    };
+  }
+  return lineups;
+}
+
+function buildTeamSheets(ctx: ParseContext): Partial<Record<SideId, TeamSheet>> {
+  const teams: Partial<Record<SideId, TeamSheet>> = {};
+  for (const side of ctx.sides) {
+    const pokemon = ctx.sheets[side];
+    teams[side] = {
+      player: getPlayerName(ctx, side),
+      pokemon,
+      paste: formatPokePaste(pokemon),
+      openSheet: ctx.openSheets[side],
+    };
+  }
+  return teams;
+}
+
+/** Private replays' ids carry their password; summaries only ever show the id itself. */
+function canonicalReplayId(id: string | undefined): string | undefined {
+  if (!id) return undefined;
+  try {
+    return getReplayId(id);
+  } catch {
+    // Uploaded replay JSON can carry any id; one that isn't a replay id has no password to strip, so it's shown as given
+    return id;
+  }
+}
+
+export function parseReplayData(data: ReplayJSON, options: RenderOptions = {}): SummarizedReplay {
   if (!data.log) {
     throw new Error("Replay JSON did not include a log field.");
   }
   const ctx = createInitialContext();
+  ctx.t = createTranslator(options.locale, options.names);
   ctx.players = {
     p1: data.players?.[0] || "Player 1",
     p2: data.players?.[1] || "Player 2",
   };
+  data.players?.slice(2, ALL_SIDES.length).forEach((name, index) => {
+    const side = ALL_SIDES[index + 2];
+    if (!name) return;
+    ctx.players[side] = name;
+    registerSide(ctx, side);
+  });
   ctx.formatName = data.format;
+  // "(opp)" tags are decided while parsing, so the perspective has to be known up front
+  if (options.perspective) {
+    const side = findPlayerSide(data, options.perspective);
+    if (!side) throw new Error(`Unknown player: ${options.perspective}`);
+    ctx.perspective = side;
+  }
   parseLog(ctx, data.log);
 
-  const rendered = renderSummary(ctx);
+  const result = resolveResult(ctx);
+  const momentum = renderMomentum(ctx);
+  const winnerSide = ctx.sides.find((side) => result.winner && toId(getPlayerName(ctx, side)) === toId(result.winner));
+  const lineups = buildLineups(ctx);
+  const turningPoints = findTurningPoints(ctx.moments, momentum, winnerSide, ctx.t, lineups);
+  const doc = buildSummaryDocument(ctx, options.verbosity ?? "full", turningPoints, options.anchorPrefix);
+  const stats = collectStats(ctx);
   return {
-    html: rendered.html,
-    text: rendered.text,
+    html: htmlRenderer.render(doc),
+    text: textRenderer.render(doc),
+    markdown: createMarkdownRenderer({ icons: options.markdownIcons }).render(doc),
+    discord: createDiscordRenderer({ emoji: options.discordEmoji }).render(doc),
+    snapshots: ctx.snapshots,
+    teams: buildTeamSheets(ctx),
+    momentum,
+    turningPoints,
+    lineups,
+    matchLine: renderMatchLine(doc),
+    resultLine: doc.result.line,
     meta: {
-      id: data.id,
+      id: canonicalReplayId(data.id),
       format: ctx.formatName,
+      gameType: ctx.gameType,
       players: ctx.players,
       winner: ctx.winner,
-      loser: resolveLoser(ctx),
-      resultNote: ctx.resultNote,
+      loser: result.loser,
+      resultNote: result.note,
+      result,
+      gimmicks: ctx.gimmicks,
+      stats,
+      mvp: pickMvp(stats),
     },
   };
 }
 
-export async function summarizeReplay(url: string): Promise<SummarizedReplay> {
+export async function summarizeReplay(
+  url: string,
+  options: RenderOptions = {},
+  fetcher: ReplayFetcher = httpReplayFetcher,
+): Promise<SummarizedReplay> {
   if (!url) throw new Error("Replay URL is required.");
-  const trimmedUrl = url.trim();
-  const jsonUrl = trimmedUrl.endsWith(".json") ? trimmedUrl : `${trimmedUrl}.json`;
-  const response = await fetch(jsonUrl, {
-    headers: { Accept: "application/json" },
-    cache: "no-store",
-  });
-  if (!response.ok) {
-    throw new Error(`Failed to fetch replay: ${response.status} ${response.statusText}`);
-  }
-  const data = (await response.json()) as ReplayJSON;
-  return parseReplayData(data);
+  return parseReplayData(await fetcher.fetchReplay(url), options);
 }
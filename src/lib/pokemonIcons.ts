@@ -25,3 +25,9 @@ export function renderPokemonIcon(rawId: string | undefined, alt: string): strin
   const src = getPokemonIconUrl(rawId);
   return `<img src="${src}" alt="${safeAlt}" width="24" height="24" style="${IMAGE_RULES.join(';')}" />`;
 }
+
+export function renderPokemonIconMarkdown(rawId: string | undefined, alt: string): string {
+  // Markdown images can't be sized, so these show at the sprite's own size
+  const safeAlt = alt.replace(/[[\]\\]/g, '\\$&');
+  return `![${safeAlt}](${getPokemonIconUrl(rawId)})`;
+}
@@ -0,0 +1,303 @@
+import { parseHPStatus, simplifyBracketText } from './utils';
+import type { HPStatus } from './utils';
+import { parsePackedTeam } from './teamSheet';
+import type { RevealedPokemon } from './teamSheet';
+
+export type SideId = "p1" | "p2" | "p3" | "p4";
+
+export const ALL_SIDES: SideId[] = ["p1", "p2", "p3", "p4"];
+
+export interface PokemonRef {
+  /** Slot identifier, e.g. "p1a" (or the raw token when it isn't a Pokémon) */
+  ref: string;
+  side: SideId;
+  /** Slot letter within the side, e.g. "a" */
+  position?: string;
+  nickname?: string;
+}
+
+export interface PokemonDetails {
+  raw: string;
+  species: string;
+  level?: number;
+  gender?: "M" | "F";
+  shiny: boolean;
+  teraType?: string;
+}
+
+export interface EffectRef {
+  kind?: "ability" | "item" | "move";
+  name: string;
+}
+
+export interface ProtocolExtras {
+  /** "[from] ability: Intimidate" -> { kind: "ability", name: "Intimidate" } */
+  from?: EffectRef;
+  /** "[of] p2a: Incineroar" */
+  of?: PokemonRef;
+  /** Every bracket tag with its value; bare flags like [spread] or [silent] map to "" or their argument */
+  tags: Record<string, string>;
+  /** Positional arguments that aren't bracket tags */
+  args: string[];
+  /** Human-readable labels for each extra, in log order (empty ones dropped) */
+  labels: string[];
+}
+
+interface PokemonEvent {
+  pokemon: PokemonRef;
+}
+
+export type BattleEvent =
+  | { type: "player"; side: SideId; name: string; avatar?: string; rating?: number }
+  | { type: "gametype"; gameType: string }
+  | { type: "gen"; gen: string }
+  | { type: "tier"; tier: string }
+  | { type: "win"; winner: string }
+  | { type: "tie" }
+  | { type: "leave"; user: string }
+  | { type: "turn"; turn: number }
+  | { type: "teamsize"; side: SideId; size: number }
+  | { type: "teampreview"; pick?: number }
+  | { type: "poke"; side: SideId; details: PokemonDetails; item?: string }
+  | { type: "showteam"; side: SideId; team: RevealedPokemon[] }
+  | ({ type: "switch" | "drag" | "replace"; details: PokemonDetails; hp: HPStatus; extras: ProtocolExtras } & PokemonEvent)
+  | ({ type: "move"; move: string; target?: PokemonRef; extras: ProtocolExtras } & PokemonEvent)
+  | ({ type: "cant"; reason: string; move?: string } & PokemonEvent)
+  | ({ type: "-damage" | "-heal"; hp: HPStatus; extras: ProtocolExtras } & PokemonEvent)
+  | ({ type: "-boost" | "-unboost" | "-setboost"; stat: string; amount: number; extras: ProtocolExtras } & PokemonEvent)
+  | ({ type: "-clearboost" | "-clearnegativeboost" | "-invertboost"; extras: ProtocolExtras } & PokemonEvent)
+  | { type: "-clearallboost"; extras: ProtocolExtras }
+  | ({ type: "-copyboost"; target: PokemonRef; extras: ProtocolExtras } & PokemonEvent)
+  | ({ type: "-status" | "-curestatus"; status: string; extras: ProtocolExtras } & PokemonEvent)
+  | ({ type: "-ability"; ability: string; extras: ProtocolExtras } & PokemonEvent)
+  | ({ type: "-item" | "-enditem"; item: string; extras: ProtocolExtras } & PokemonEvent)
+  | { type: "-fieldstart" | "-fieldend"; effect: string; extras: ProtocolExtras }
+  | { type: "-weather"; weather: string; extras: ProtocolExtras }
+  | { type: "-sidestart" | "-sideend"; side: SideId; condition: string; extras: ProtocolExtras }
+  | { type: "-terrain"; terrain: string }
+  | { type: "-message"; message: string }
+  | ({ type: "-singleturn" | "-activate" | "-start" | "-end"; effect: string; extras: ProtocolExtras } & PokemonEvent)
+  | ({ type: "-fail" | "-immune"; extras: ProtocolExtras } & PokemonEvent)
+  | ({ type: "-miss"; target?: PokemonRef } & PokemonEvent)
+  | ({ type: "faint" | "-crit" | "-supereffective" | "-resisted" | "-zpower" } & PokemonEvent)
+  | { type: "-ohko" }
+  | ({ type: "-terastallize"; teraType: string } & PokemonEvent)
+  | ({ type: "-mega" | "-primal" | "-burst"; species?: string; item?: string } & PokemonEvent)
+  | ({ type: "-transform"; target?: PokemonRef; extras: ProtocolExtras } & PokemonEvent)
+  | ({ type: "detailschange" | "-formechange"; details: PokemonDetails; extras: ProtocolExtras } & PokemonEvent)
+  | { type: "unknown"; tag: string; args: string[] };
+
+export type BattleEventType = BattleEvent["type"];
+
+export function resolveSide(ref: string): SideId {
+  const match = ref.match(/^p([1-4])/);
+  return match ? (`p${match[1]}` as SideId) : "p1";
+}
+
+export function parsePokemonRef(raw: string): PokemonRef {
+  const match = raw.match(/^([a-z0-9]+):\s*(.+)$/i);
+  if (!match) {
+    const ref = raw.trim();
+    return { ref, side: resolveSide(ref), nickname: ref };
+  }
+  const [, ref, nickname] = match;
+  const position = ref.match(/^p[1-4]([a-z])$/)?.[1];
+  return { ref, side: resolveSide(ref), position, nickname };
+}
+
+export function parsePokemonDetails(raw: string): PokemonDetails {
+  const [species, ...tokens] = raw.split(",").map((token) => token.trim());
+  const details: PokemonDetails = { raw, species: species || "", shiny: false };
+  for (const token of tokens) {
+    if (/^L\d+$/.test(token)) {
+      details.level = Number(token.slice(1));
+    } else if (token === "M" || token === "F") {
+      details.gender = token;
+    } else if (token === "shiny") {
+      details.shiny = true;
+    } else if (token.startsWith("tera:")) {
+      details.teraType = token.slice("tera:".length);
+    }
+  }
+  return details;
+}
+
+function parseEffectRef(value: string): EffectRef {
+  const match = value.match(/^(ability|item|move):\s*(.+)$/i);
+  if (!match) return { name: value };
+  return { kind: match[1].toLowerCase() as EffectRef["kind"], name: match[2].trim() };
+}
+
+export function parseExtras(segments: string[]): ProtocolExtras {
+  const extras: ProtocolExtras = { tags: {}, args: [], labels: [] };
+  for (const segment of segments) {
+    const label = simplifyBracketText(segment);
+    if (label) extras.labels.push(label);
+
+    const bracketMatch = segment.match(/^\[(.+?)\]\s*(.*)$/);
+    if (!bracketMatch) {
+      if (segment.trim()) extras.args.push(segment.trim());
+      continue;
+    }
+    const [, tag, rest] = bracketMatch;
+    const value = rest.trim();
+    extras.tags[tag] = value;
+    if (tag === "from" && value) extras.from = parseEffectRef(value);
+    if (tag === "of" && value) extras.of = parsePokemonRef(value);
+  }
+  return extras;
+}
+
+function parseLine(parts: string[]): BattleEvent {
+  const [tag, ...args] = parts;
+  const pokemon = () => parsePokemonRef(args[0] || "");
+  const extrasFrom = (index: number) => parseExtras(args.slice(index));
+  switch (tag) {
+    case "player":
+      return {
+        type: "player",
+        side: args[0] as SideId,
+        name: args[1] || "",
+        avatar: args[2] || undefined,
+        rating: args[3] ? Number(args[3]) : undefined,
+      };
+    case "gametype":
+      return { type: "gametype", gameType: args[0] || "" };
+    case "gen":
+      return { type: "gen", gen: args[0] || "" };
+    case "tier":
+    case "format":
+      return { type: "tier", tier: args[0] || "" };
+    case "win":
+      return { type: "win", winner: args[0] || "" };
+    case "tie":
+      return { type: "tie" };
+    case "l":
+      // Leaving users are prefixed with their rank symbol
+      return { type: "leave", user: (args[0] || "").replace(/^[^A-Za-z0-9]+/, "") };
+    case "turn":
+      return { type: "turn", turn: Number(args[0]) };
+    case "teamsize":
+      return { type: "teamsize", side: args[0] as SideId, size: Number(args[1]) || 0 };
+    case "teampreview":
+      // Formats that pick a subset (VGC's bring 6 pick 4) pass the pick count
+      return { type: "teampreview", pick: Number(args[0]) || undefined };
+    case "poke":
+      return { type: "poke", side: args[0] as SideId, details: parsePokemonDetails(args[1] || ""), item: args[2] || undefined };
+    case "showteam":
+      // The packed team contains "|" itself
+      return { type: "showteam", side: args[0] as SideId, team: parsePackedTeam(args.slice(1).join("|")) };
+    case "switch":
+    case "drag":
+    case "replace":
+      return {
+        type: tag,
+        pokemon: pokemon(),
+        details: parsePokemonDetails(args[1] || ""),
+        hp: parseHPStatus(args[2] || ""),
+        extras: extrasFrom(3),
+      };
+    case "move":
+      return {
+        type: "move",
+        pokemon: pokemon(),
+        move: args[1] || "",
+        target: args[2] ? parsePokemonRef(args[2]) : undefined,
+        extras: extrasFrom(3),
+      };
+    case "cant":
+      return { type: "cant", pokemon: pokemon(), reason: args[1] || "", move: args[2] || undefined };
+    case "-damage":
+    case "-heal":
+      return { type: tag, pokemon: pokemon(), hp: parseHPStatus(args[1] || ""), extras: extrasFrom(2) };
+    case "-boost":
+    case "-unboost":
+    case "-setboost":
+      return { type: tag, pokemon: pokemon(), stat: args[1] || "", amount: Number(args[2]), extras: extrasFrom(3) };
+    case "-clearboost":
+    case "-clearnegativeboost":
+    case "-invertboost":
+      return { type: tag, pokemon: pokemon(), extras: extrasFrom(1) };
+    case "-clearallboost":
+      return { type: "-clearallboost", extras: extrasFrom(0) };
+    case "-copyboost":
+      // The first Pokémon copies the stat stages of the second
+      return { type: "-copyboost", pokemon: pokemon(), target: parsePokemonRef(args[1] || ""), extras: extrasFrom(2) };
+    case "-status":
+    case "-curestatus":
+      return { type: tag, pokemon: pokemon(), status: args[1] || "", extras: extrasFrom(2) };
+    case "-ability":
+      return { type: "-ability", pokemon: pokemon(), ability: args[1] || "", extras: extrasFrom(2) };
+    case "-item":
+    case "-enditem":
+      return { type: tag, pokemon: pokemon(), item: args[1] || "", extras: extrasFrom(2) };
+    case "-fieldstart":
+    case "-fieldend":
+      return { type: tag, effect: args[0] || "", extras: extrasFrom(1) };
+    case "-weather":
+      return { type: "-weather", weather: args[0] || "", extras: extrasFrom(1) };
+    case "-sidestart":
+    case "-sideend":
+      return { type: tag, side: resolveSide(args[0] || ""), condition: args[1] || "", extras: extrasFrom(2) };
+    case "-terrain":
+      return { type: "-terrain", terrain: args[0] || "" };
+    case "-message":
+      return { type: "-message", message: args.join(" ") };
+    case "-singleturn":
+    case "-activate":
+    case "-start":
+    case "-end":
+      return { type: tag, pokemon: pokemon(), effect: args[1] || "", extras: extrasFrom(2) };
+    case "-fail":
+    case "-immune":
+      return { type: tag, pokemon: pokemon(), extras: extrasFrom(1) };
+    case "-miss":
+      return { type: "-miss", pokemon: pokemon(), target: args[1] ? parsePokemonRef(args[1]) : undefined };
+    case "faint":
+    case "-crit":
+    case "-supereffective":
+    case "-resisted":
+    case "-zpower":
+      return { type: tag, pokemon: pokemon() };
+    case "-ohko":
+      return { type: "-ohko" };
+    case "-terastallize":
+      return { type: "-terastallize", pokemon: pokemon(), teraType: args[1] || "" };
+    case "-mega":
+    case "-primal":
+    case "-burst":
+      return { type: tag, pokemon: pokemon(), species: args[1] || undefined, item: args[2] || undefined };
+    case "-transform":
+      return {
+        type: "-transform",
+        pokemon: pokemon(),
+        target: args[1] ? parsePokemonRef(args[1]) : undefined,
+        extras: extrasFrom(2),
+      };
+    case "detailschange":
+    case "-formechange":
+    case "formechange":
+      return {
+        type: tag === "detailschange" ? "detailschange" : "-formechange",
+        pokemon: pokemon(),
+        details: parsePokemonDetails(args[1] || ""),
+        extras: extrasFrom(2),
+      };
+    default:
+      return { type: "unknown", tag, args };
+  }
+}
+
+/**
+ * Turns a raw Showdown battle log into typed events. Pokémon references, HP
+ * and status are parsed, and bracket extras become structured fields.
+ */
+export function parseBattleEvents(log: string): BattleEvent[] {
+  const events: BattleEvent[] = [];
+  for (const rawLine of log.split("\n")) {
+    const line = rawLine.startsWith("|") ? rawLine.slice(1) : rawLine;
+    if (!line) continue;
+    events.push(parseLine(line.split("|")));
+  }
+  return events;
+}
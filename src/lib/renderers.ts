@@ -0,0 +1,331 @@
+import { findDiscordEmoji, splitDiscordMessages } from './discord';
+import { MESSAGES } from './locale';
+import type { Messages } from './locale';
+import { renderPokemonIcon, renderPokemonIconMarkdown, DEFAULT_ICON_ID } from './pokemonIcons';
+import { extractMarkers } from './summaryNodes';
+import type { ActionNode, DetailNode, HeadlineNode, PokemonLabel, ResidualLine, SummaryDocument, TitledList, TurnNode } from './summaryNodes';
+import { escapeMarkdown, toIconId } from './utils';
+
+export interface SummaryRenderer<Output = string> {
+  render(doc: SummaryDocument): Output;
+}
+
+function headerNote(doc: SummaryDocument): string {
+  return doc.result.note ? ` (${doc.result.note}, ${doc.messages.turn(doc.result.turn)})` : '';
+}
+
+function formatSuffix(doc: SummaryDocument): string {
+  return doc.format ? ` — ${doc.format}` : '';
+}
+
+/** "[W] Alice vs [L] Bob — format": the summary's first line, with the perspective's player first. */
+export function renderMatchLine(doc: SummaryDocument): string {
+  return `${doc.players.map((player) => `${player.tag}${player.name}`).join(' vs ')}${formatSuffix(doc)}${headerNote(doc)}`;
+}
+
+function turnHeaderSuffix(turn: TurnNode): string {
+  return turn.headerEvents.length ? ` ${turn.headerEvents.join('; ')}` : '';
+}
+
+function headlineSeparator(action: ActionNode): string {
+  return action.targetRef && action.details.length ? ', ' : ' — ';
+}
+
+/** Element id of a turn's header in the HTML output, for turning-point links */
+export function turnAnchor(turn: number, prefix = ''): string {
+  return `${prefix}turn-${turn}`;
+}
+
+function speciesLabel(species: string): PokemonLabel {
+  return { name: species, species, iconId: toIconId(species) || DEFAULT_ICON_ID };
+}
+
+// --- Plain text ---
+
+/** Plain-text form of a detail; `omitRef` leaves out the name of a Pokémon the line already shows. */
+export function renderDetailText(node: DetailNode, omitRef?: string): string {
+  switch (node.kind) {
+    case 'text':
+      return node.text;
+    case 'pokemon':
+      return node.ref === omitRef ? node.body.trim() : `${node.pokemon.name} ${node.body}`.trim();
+    case 'announce':
+      return node.text;
+    case 'switch':
+      return `${node.from?.name || 'Previous'} -> ${node.to.name}`;
+    case 'group':
+      return node.parts.map((part) => renderDetailText(part, omitRef)).filter(Boolean).join(node.separator);
+  }
+}
+
+export function renderHeadlineText(headline: HeadlineNode, messages: Messages = MESSAGES.en): string {
+  switch (headline.kind) {
+    case 'enter':
+      return `${headline.pokemon.name} ${headline.verb}`.trim();
+    case 'switch': {
+      const from = headline.from?.name ?? '';
+      const to = headline.to?.name ?? '';
+      return (from && to ? `${from} -> ${to}` : to || from || 'Switch') + headline.note;
+    }
+    case 'move': {
+      const actor = headline.transform ? `${headline.actor.name} ${messages.transformedAs(headline.transform.name)}` : headline.actor.name;
+      const segments = [`${actor} ${headline.verb}`.trim()];
+      if (headline.targets.length) segments.push(`-> ${headline.targets.map((target) => target.name).join(', ')}`);
+      return segments.join(' ').replace(/\s+/g, ' ');
+    }
+  }
+}
+
+function joinDetailsText(details: DetailNode[], separator: string, omitRef?: string): string {
+  return details.map((detail) => renderDetailText(detail, omitRef)).filter(Boolean).join(separator);
+}
+
+function residualText(line: ResidualLine): string {
+  return `${line.player}: ${joinDetailsText(line.details, ', ')}`;
+}
+
+function listText(list: TitledList): string[] {
+  return [list.title, ...list.entries.map((entry) => entry.line)];
+}
+
+function turnText(messages: Messages, turn: TurnNode): string[] {
+  const lines = [`${messages.turn(turn.turn)}${turnHeaderSuffix(turn)}`.trim()];
+  for (const event of turn.gimmickEvents) lines.push(`  ${event}`);
+  for (const action of turn.actions) {
+    const headline = renderHeadlineText(action.headline, messages);
+    const details = joinDetailsText(action.details, action.detailSeparator, action.targetRef);
+    lines.push(`  ${details ? `${headline}${headlineSeparator(action)}${details}` : headline}`);
+  }
+  const endEvents = joinDetailsText(turn.endEvents, '; ');
+  if (endEvents) lines.push(`    ${endEvents}`);
+  for (const line of turn.residual) lines.push(`    ${residualText(line)}`);
+  for (const replacement of turn.replacements) {
+    const headline = renderHeadlineText(replacement.headline, messages);
+    const details = joinDetailsText(replacement.details, '; ');
+    lines.push(`  ${details ? `${headline} — ${details}` : headline}`);
+  }
+  return lines;
+}
+
+export const textRenderer: SummaryRenderer = {
+  render(doc) {
+    const lines = [renderMatchLine(doc)];
+    const { messages } = doc;
+    if (doc.turningPoints.length) {
+      lines.push(messages.turningPoints, ...doc.turningPoints.map((point, index) => `${index + 1}. ${messages.turn(point.turn)} — ${point.text}`));
+    }
+    lines.push(...doc.sheets.flatMap(listText));
+    if (doc.teams) lines.push(doc.teams.map((team) => team.map((mon) => mon.name).join(' · ')).join(' vs '));
+    if (doc.leads) lines.push(doc.leads.map((side) => side.map((mon) => mon.name).join(', ')).join(' vs '));
+    lines.push(...doc.leadEvents);
+    lines.push(...doc.turns.flatMap((turn) => turnText(messages, turn)));
+    lines.push(...doc.stats.flatMap(listText));
+    lines.push(doc.result.line);
+    return lines.join('\n');
+  },
+};
+
+// --- HTML ---
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function iconHtml(label: PokemonLabel): string {
+  return renderPokemonIcon(label.iconId || DEFAULT_ICON_ID, label.name);
+}
+
+/** Sprite plus any markers that tell apart same-species Pokémon; the name where there's no sprite. */
+function pokemonHtml(label: PokemonLabel): string {
+  return label.iconId ? `${iconHtml(label)}${escapeHtml(extractMarkers(label.name))}` : escapeHtml(label.name);
+}
+
+function renderDetailHtml(node: DetailNode, omitRef?: string): string {
+  switch (node.kind) {
+    case 'text':
+      return escapeHtml(node.text);
+    case 'pokemon':
+      return node.ref === omitRef ? escapeHtml(node.body.trim()) : `${pokemonHtml(node.pokemon)} ${escapeHtml(node.body)}`.trim();
+    case 'announce':
+      return `${iconHtml(node.pokemon)}${escapeHtml(node.text)}`;
+    case 'switch':
+      if (!node.to.iconId) return escapeHtml(renderDetailText(node));
+      return node.from?.iconId ? `${iconHtml(node.from)} -> ${iconHtml(node.to)}` : iconHtml(node.to);
+    case 'group':
+      return node.parts.map((part) => renderDetailHtml(part, omitRef)).filter(Boolean).join(node.separator);
+  }
+}
+
+function renderHeadlineHtml(headline: HeadlineNode, messages: Messages): string {
+  switch (headline.kind) {
+    case 'enter':
+      return `${pokemonHtml(headline.pokemon)} ${escapeHtml(headline.verb)}`.trim();
+    case 'switch': {
+      const from = headline.from?.iconId ? iconHtml(headline.from) : '';
+      const to = headline.to?.iconId ? pokemonHtml(headline.to) : '';
+      const arrow = from && to ? `${from} -> ${to}` : to || from || 'Switch';
+      return `${arrow}${escapeHtml(headline.note)}`;
+    }
+    case 'move': {
+      const { actor, transform } = headline;
+      const actorHtml = actor.iconId
+        ? `${pokemonHtml(actor)}${transform ? iconHtml(transform) : ''}`
+        : escapeHtml(transform ? `${actor.name} ${messages.transformedAs(transform.name)}` : actor.name);
+      const segments = [actorHtml, escapeHtml(headline.verb)];
+      if (headline.targets.length) segments.push(`-> ${headline.targets.map(pokemonHtml).join(' ')}`);
+      return segments.join(' ').replace(/\s+/g, ' ');
+    }
+  }
+}
+
+function joinDetailsHtml(details: DetailNode[], separator: string, omitRef?: string): string {
+  return details.map((detail) => renderDetailHtml(detail, omitRef)).filter(Boolean).join(separator);
+}
+
+function listHtml(list: TitledList): string[] {
+  return [
+    `<div><strong>${escapeHtml(list.title)}</strong></div>`,
+    ...list.entries.map((entry) => `<div>${iconHtml(speciesLabel(entry.species))}${escapeHtml(entry.line)}</div>`),
+  ];
+}
+
+function turnHtml(doc: SummaryDocument, turn: TurnNode): string[] {
+  const { messages } = doc;
+  const lines = [`<div id="${turnAnchor(turn.turn, doc.anchorPrefix)}"><strong>${escapeHtml(messages.turn(turn.turn))}</strong>${escapeHtml(turnHeaderSuffix(turn))}</div>`];
+  for (const event of turn.gimmickEvents) lines.push(`<div>&nbsp;&nbsp;${escapeHtml(event)}</div>`);
+  for (const action of turn.actions) {
+    const headline = renderHeadlineHtml(action.headline, messages);
+    const details = joinDetailsHtml(action.details, action.detailSeparator, action.targetRef);
+    lines.push(`<div>&nbsp;&nbsp;${details ? `${headline}${headlineSeparator(action)}${details}` : headline}</div>`);
+  }
+  const endEvents = joinDetailsHtml(turn.endEvents, '; ');
+  if (endEvents) lines.push(`<div>&nbsp;&nbsp;&nbsp;&nbsp;${endEvents}</div>`);
+  for (const line of turn.residual) {
+    lines.push(`<div>&nbsp;&nbsp;&nbsp;&nbsp;${escapeHtml(line.player)}: ${joinDetailsHtml(line.details, ', ')}</div>`);
+  }
+  for (const replacement of turn.replacements) {
+    const headline = renderHeadlineHtml(replacement.headline, messages);
+    const details = joinDetailsHtml(replacement.details, '; ');
+    lines.push(`<div>&nbsp;&nbsp;${details ? `${headline} — ${details}` : headline}</div>`);
+  }
+  return lines;
+}
+
+export const htmlRenderer: SummaryRenderer = {
+  render(doc) {
+    const players = doc.players.map((player) => `<strong>${escapeHtml(`${player.tag}${player.name}`)}</strong>`);
+    const lines = [`<div>${players.join(' vs ')}${escapeHtml(`${formatSuffix(doc)}${headerNote(doc)}`)}</div>`];
+    const { messages } = doc;
+    if (doc.turningPoints.length) {
+      // Turns trimmed by the verbosity setting have no header to link to
+      const shown = new Set(doc.turns.map((turn) => turn.turn));
+      lines.push(`<div><strong>${escapeHtml(messages.turningPoints)}</strong></div>`);
+      doc.turningPoints.forEach((point, index) => {
+        const turn = escapeHtml(messages.turn(point.turn));
+        const label = shown.has(point.turn) ? `<a href="#${turnAnchor(point.turn, doc.anchorPrefix)}">${turn}</a>` : turn;
+        lines.push(`<div>${index + 1}. ${label} — ${escapeHtml(point.text)}</div>`);
+      });
+    }
+    lines.push(...doc.sheets.flatMap(listHtml));
+    if (doc.teams) {
+      const teams = doc.teams.map((team) => team.map(iconHtml).join(''));
+      lines.push(`<div>${teams.join('&nbsp;&nbsp;vs&nbsp;&nbsp;')}</div>`);
+    }
+    if (doc.leads) {
+      lines.push(`<div>${doc.leads.map((side) => side.map(iconHtml).join('')).join('&nbsp;&nbsp;vs&nbsp;&nbsp;')}</div>`);
+    }
+    lines.push(...doc.leadEvents.map((event) => `<div>${escapeHtml(event)}</div>`));
+    lines.push(...doc.turns.flatMap((turn) => turnHtml(doc, turn)));
+    lines.push(...doc.stats.flatMap(listHtml));
+    return lines.join('\n');
+  },
+};
+
+// --- Markdown and Discord ---
+
+interface MarkdownStyle {
+  /** Prefix for a Pokémon: image syntax, a custom emoji, or nothing */
+  icon(label: PokemonLabel): string;
+  /** Discord hides the result behind a spoiler and leaves W/L tags out of the header */
+  spoilers: boolean;
+}
+
+function headlineSubject(headline: HeadlineNode): PokemonLabel | undefined {
+  if (headline.kind === 'enter') return headline.pokemon;
+  if (headline.kind === 'switch') return headline.to;
+  return headline.actor;
+}
+
+function markdownListItem(label: string, details: DetailNode[]): string {
+  const nested = details.map((detail) => renderDetailText(detail)).filter(Boolean).map((text) => `\n  - ${escapeMarkdown(text)}`);
+  return `- ${label}${nested.join('')}`;
+}
+
+function markdownList(style: MarkdownStyle, list: TitledList): string {
+  const items = list.entries.map((entry) => `- ${style.icon(speciesLabel(entry.species))}${escapeMarkdown(entry.line)}`);
+  return `**${escapeMarkdown(list.title)}**\n\n${items.join('\n')}`;
+}
+
+function turnMarkdown(style: MarkdownStyle, messages: Messages, turn: TurnNode): string {
+  const actionItem = (action: ActionNode) => {
+    const subject = headlineSubject(action.headline);
+    const icon = subject?.species ? style.icon(subject) : '';
+    return markdownListItem(`${icon}${escapeMarkdown(renderHeadlineText(action.headline, messages))}`, action.details);
+  };
+  // Bold turn label, then actions as a list with their details nested under them
+  const items = turn.gimmickEvents.map((event) => `- ${escapeMarkdown(event)}`);
+  items.push(...turn.actions.map(actionItem));
+  const endDetails = [...turn.endEvents, ...turn.residual.map((line): DetailNode => ({ kind: 'text', text: residualText(line) }))];
+  if (endDetails.some((detail) => renderDetailText(detail))) {
+    items.push(markdownListItem(`_${escapeMarkdown(messages.endOfTurn)}_`, endDetails));
+  }
+  items.push(...turn.replacements.map(actionItem));
+  const header = `**${escapeMarkdown(messages.turn(turn.turn))}**${escapeMarkdown(turnHeaderSuffix(turn))}`;
+  return items.length ? `${header}\n\n${items.join('\n')}` : header;
+}
+
+/** Markdown blocks: the header lines, one block per turn, then stats and the result. */
+function renderMarkdownBlocks(style: MarkdownStyle, doc: SummaryDocument): string[] {
+  const note = style.spoilers ? '' : headerNote(doc);
+  const players = doc.players.map((player) => `**${escapeMarkdown(`${style.spoilers ? '' : player.tag}${player.name}`)}**`);
+  const blocks = [`${players.join(' vs ')}${escapeMarkdown(`${formatSuffix(doc)}${note}`)}`];
+  if (doc.turningPoints.length) {
+    const items = doc.turningPoints.map((point, index) => {
+      const text = escapeMarkdown(`${doc.messages.turn(point.turn)} — ${point.text}`);
+      return `${index + 1}. ${style.spoilers ? `||${text}||` : text}`;
+    });
+    blocks.push(`**${escapeMarkdown(doc.messages.turningPoints)}**\n\n${items.join('\n')}`);
+  }
+  blocks.push(...doc.sheets.map((sheet) => markdownList(style, sheet)));
+  if (doc.teams) {
+    const teams = doc.teams.map((team) => team.map((mon) => `${style.icon(mon)}${escapeMarkdown(mon.name)}`).join(' · '));
+    blocks.push(teams.join(' vs '));
+  }
+  if (doc.leads) blocks.push(escapeMarkdown(doc.leads.map((side) => side.map((mon) => mon.name).join(', ')).join(' vs ')));
+  blocks.push(...doc.leadEvents.map(escapeMarkdown));
+  blocks.push(...doc.turns.map((turn) => turnMarkdown(style, doc.messages, turn)));
+  blocks.push(...doc.stats.map((list) => markdownList(style, list)));
+  const result = `**${escapeMarkdown(doc.result.line)}**`;
+  blocks.push(style.spoilers ? `||${result}||` : result);
+  return blocks;
+}
+
+export function createMarkdownRenderer(options: { icons?: boolean } = {}): SummaryRenderer {
+  const style: MarkdownStyle = {
+    icon: (label) => (options.icons ? `${renderPokemonIconMarkdown(label.iconId || DEFAULT_ICON_ID, label.species || label.name)} ` : ''),
+    spoilers: false,
+  };
+  return { render: (doc) => renderMarkdownBlocks(style, doc).join('\n\n') };
+}
+
+/** Discord messages, split at turn boundaries; species in `emoji` are shown with that custom emoji. */
+export function createDiscordRenderer(options: { emoji?: Record<string, string> } = {}): SummaryRenderer<string[]> {
+  const style: MarkdownStyle = {
+    icon: (label) => {
+      const emoji = findDiscordEmoji(options.emoji, label.species || label.name);
+      return emoji ? `${emoji} ` : '';
+    },
+    spoilers: true,
+  };
+  return { render: (doc) => splitDiscordMessages(renderMarkdownBlocks(style, doc)) };
+}
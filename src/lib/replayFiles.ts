@@ -0,0 +1,92 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { formatReplayRef, getReplayId, httpReplayFetcher, parseReplayRef } from './replays';
+import type { ReplayFetcher, ReplayJSON, ReplayRef } from './replays';
+
+/** Where the scripts keep downloaded replays */
+export const DEFAULT_REPLAY_STORE = path.join(process.cwd(), 'data', 'replays');
+
+export interface ReplayStoreOptions {
+  /** Download again even when the replay is already stored */
+  refresh?: boolean;
+  /** Only read from the store; a replay that isn't stored is an error */
+  offline?: boolean;
+}
+
+/**
+ * Reads replays from a folder of saved replay JSON (like `examples/`) instead of the replay server.
+ * Files can be named by replay id or by battle number alone ("2247069894.json").
+ */
+export function createDirectoryFetcher(directory: string): ReplayFetcher {
+  return {
+    async fetchReplay(replay) {
+      const id = getReplayId(replay);
+      const battleNumber = id.match(/-(\d+)$/)?.[1];
+      for (const name of [id, battleNumber]) {
+        if (!name) continue;
+        try {
+          return JSON.parse(await readFile(path.join(directory, `${name}.json`), 'utf8')) as ReplayJSON;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        }
+      }
+      throw new Error(`Replay ${id} is not in ${directory}`);
+    },
+  };
+}
+
+/** A stored copy of the replay, if its password allows it: a private replay never answers for its bare id. */
+async function readStoredReplay(directory: string, ref: ReplayRef): Promise<ReplayJSON | undefined> {
+  let data: ReplayJSON;
+  try {
+    data = JSON.parse(await readFile(path.join(directory, `${formatReplayRef(ref)}.json`), 'utf8')) as ReplayJSON;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+  return (data.password || undefined) === ref.password ? data : undefined;
+}
+
+/**
+ * Keeps every replay it downloads as `<replay id>.json` in `directory` (`<replay id>-<password>pw.json` when
+ * private), the same shape as `examples/`, and answers from there before asking `upstream`. Offline wins over refresh, since nothing can be downloaded.
+ * Saving is best effort: a replay that can't be written is still returned.
+ */
+export function createReplayStore(
+  directory: string = DEFAULT_REPLAY_STORE,
+  upstream: ReplayFetcher = httpReplayFetcher,
+  { refresh = false, offline = false }: ReplayStoreOptions = {},
+): ReplayFetcher {
+  return {
+    async fetchReplay(replay) {
+      const ref = parseReplayRef(replay);
+      if (offline) {
+        const data = await readStoredReplay(directory, ref);
+        if (!data) throw new Error(`Replay ${ref.id} is not in ${directory}`);
+        return data;
+      }
+      if (!refresh) {
+        try {
+          const data = await readStoredReplay(directory, ref);
+          if (data) return data;
+        } catch {
+          // Unreadable: download it again below
+        }
+      }
+      const data = await upstream.fetchReplay(replay);
+      try {
+        await mkdir(directory, { recursive: true });
+        await writeFile(path.join(directory, `${formatReplayRef(ref)}.json`), JSON.stringify(data));
+      } catch {
+        // A read-only or full disk only costs the cached copy
+      }
+      return data;
+    },
+  };
+}
+
+/** Every replay JSON file in a folder, in file name order. */
+export async function readReplayDirectory(directory: string): Promise<ReplayJSON[]> {
+  const names = (await readdir(directory)).filter((name) => name.endsWith('.json')).sort();
+  return Promise.all(names.map(async (name) => JSON.parse(await readFile(path.join(directory, name), 'utf8')) as ReplayJSON));
+}
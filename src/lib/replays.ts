@@ -0,0 +1,114 @@
+export const REPLAY_HOST = 'https://replay.pokemonshowdown.com';
+
+export interface ReplayJSON {
+  id?: string;
+  format?: string;
+  log: string;
+  players?: string[];
+  rating?: number;
+  password?: string;
+}
+
+/** Where replays come from: the replay server, or saved JSON files for scripts and offline testing. */
+export interface ReplayFetcher {
+  /** Fetches a replay by link or id ("gen9vgc2024reghbo3-2247069894", plus "-<password>pw" when private) */
+  fetchReplay(replay: string): Promise<ReplayJSON>;
+}
+
+/** A replay as the replay server knows it: its id, plus the password a private replay is saved under. */
+export interface ReplayRef {
+  /** "gen9vgc2024reghbo3-2247069894", or "smogtours-gen9ou-123456" for a replay from another server */
+  id: string;
+  password?: string;
+}
+
+// Format (optionally prefixed by the server it was played on), battle number, then a private replay's password,
+// which replay and battle room links both spell "-<password>pw". Server and format start with a letter, so
+// "gen9ou-123-4567" (a password without its "pw") is refused rather than read as server "gen9ou", format "123".
+const REPLAY_ID = /^((?:[a-z][a-z0-9]*-)?[a-z][a-z0-9]*-\d+)(?:-([a-z0-9]+)pw)?$/;
+
+/**
+ * Reads a replay link, battle room link or bare id, with or without a trailing slash, query ("?p2"),
+ * fragment, ".json"/".log" extension or "battle-" prefix. Throws on anything else.
+ */
+export function parseReplayRef(replay: string): ReplayRef {
+  const trimmed = replay.trim();
+  if (!trimmed) throw new Error('Replay URL is required.');
+  let segment = trimmed;
+  if (trimmed.includes('/')) {
+    let url: URL;
+    try {
+      url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    } catch {
+      throw new Error(`Not a replay link: ${trimmed}`);
+    }
+    if (url.hostname !== 'pokemonshowdown.com' && !url.hostname.endsWith('.pokemonshowdown.com')) {
+      throw new Error(`Not a Pokémon Showdown link: ${trimmed}`);
+    }
+    segment = url.pathname.split('/').filter(Boolean).pop() ?? '';
+  } else {
+    segment = segment.replace(/[?#].*$/, '');
+  }
+  const match = decodeURIComponent(segment).toLowerCase().replace(/\.(json|log)$/, '').replace(/^battle-/, '').match(REPLAY_ID);
+  if (!match) {
+    throw new Error(`Not a replay link or id: ${trimmed} (expected e.g. https://replay.pokemonshowdown.com/gen9ou-1234567890)`);
+  }
+  return { id: match[1], password: match[2] };
+}
+
+/** The id the replay server serves a replay under: "<id>-<password>pw" when private. */
+export function formatReplayRef(ref: ReplayRef): string {
+  return ref.password ? `${ref.id}-${ref.password}pw` : ref.id;
+}
+
+/** The canonical replay id (without password) of any link or id `parseReplayRef` accepts. */
+export function getReplayId(replay: string): string {
+  return parseReplayRef(replay).id;
+}
+
+const BATTLE_LOG_DATA = /<script[^>]*class="battle-log-data"[^>]*>([\s\S]*?)<\/script>/i;
+const REPLAY_ID_INPUT = /<input[^>]*name="replayid"[^>]*value="([^"]+)"/i;
+
+/** A replay JSON object, checked for the one field a summary can't do without. */
+export function readReplayObject(data: unknown): ReplayJSON {
+  if (!data || typeof data !== 'object' || typeof (data as ReplayJSON).log !== 'string') {
+    throw new Error('Replay JSON did not include a log field.');
+  }
+  return data as ReplayJSON;
+}
+
+/**
+ * A replay that wasn't fetched: replay JSON, a page saved with the client's "Download replay" button
+ * (its log sits in a `battle-log-data` script with every "/" escaped), or a raw protocol log.
+ */
+export function parseReplayInput(content: string): ReplayJSON {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Replay JSON could not be parsed.');
+    }
+    return readReplayObject(data);
+  }
+  const script = trimmed.match(BATTLE_LOG_DATA);
+  if (script) {
+    return { id: trimmed.match(REPLAY_ID_INPUT)?.[1], log: script[1].replace(/\\\//g, '/') };
+  }
+  if (/^\|/m.test(trimmed)) return { log: trimmed };
+  throw new Error('Expected a battle log, replay JSON or a saved replay .html file.');
+}
+
+export const httpReplayFetcher: ReplayFetcher = {
+  async fetchReplay(replay) {
+    const response = await fetch(`${REPLAY_HOST}/${formatReplayRef(parseReplayRef(replay))}.json`, {
+      headers: { Accept: 'application/json' },
+      cache: 'no-store',
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch replay: ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as ReplayJSON;
+  },
+};
@@ -0,0 +1,246 @@
+import { createTranslator } from './locale';
+import type { Messages, Translator } from './locale';
+import { parseReplayData } from './parser';
+import type { RenderOptions, SideId, SummarizedReplay } from './parser';
+import { ALL_SIDES } from './protocol';
+import { httpReplayFetcher } from './replays';
+import type { ReplayFetcher, ReplayJSON } from './replays';
+import { escapeMarkdown, toId } from './utils';
+
+/** Where a game sits in its set, from the `|uhtml|bestof|` header PS puts in best-of logs. */
+export interface BestOf {
+  game: number;
+  total: number;
+  /** Series room, e.g. "game-bestof3-gen9vgc2025reghbo3-2439912839" */
+  room: string;
+  /** Replay id of the next game, linked once it has started */
+  next?: string;
+  /** Replay ids of games the header links to, by game number */
+  games: Record<number, string>;
+}
+
+export interface SeriesGame {
+  game: number;
+  /** Missing when the game couldn't be fetched (private without its password, or never saved) */
+  summary?: SummarizedReplay;
+  /** Found by guessing its replay id rather than following a link, so it may not be the right battle */
+  guessed?: boolean;
+}
+
+export interface SeriesSummary {
+  bestOf: number;
+  players: string[];
+  /** Games won, in the order of `players` */
+  score: number[];
+  games: SeriesGame[];
+  html: string;
+  text: string;
+  markdown: string;
+}
+
+const BESTOF_HEADER = /^\|uhtml\|bestof\|.*?<strong>Game (\d+)<\/strong> of <a href="\/(game-bestof(\d+)-[^"]+)"/m;
+const NEXT_GAME = /^\|uhtml\|next\|.*?href="\/battle-([^"]+)"/m;
+// The header is redrawn as the set goes on and can list its games: <a href="/battle-gen9…-2439916267"><strong>Game 2</strong></a>
+const HEADER_LINE = /^\|uhtml(?:change)?\|bestof\|(.*)$/gm;
+const GAME_LINK = /<a href="\/battle-([^"]+)"[^>]*>(?:<[^>]+>)*Game (\d+)\b/g;
+
+function readGameLinks(log: string): Record<number, string> {
+  const games: Record<number, string> = {};
+  for (const [, html] of log.matchAll(HEADER_LINE)) {
+    for (const [, id, game] of html.matchAll(GAME_LINK)) games[Number(game)] = id;
+  }
+  return games;
+}
+
+export function readBestOf(log: string): BestOf | undefined {
+  const header = log.match(BESTOF_HEADER);
+  if (!header) return undefined;
+  return { game: Number(header[1]), total: Number(header[3]), room: header[2], next: log.match(NEXT_GAME)?.[1], games: readGameLinks(log) };
+}
+
+// Only used when no header links game 1: the series room is opened right before game 1, so game 1's
+// battle number is usually one higher. A private game 1 also needs its password, which this can't know.
+function firstGameId(bestOf: BestOf): string | undefined {
+  const match = bestOf.room.match(/^game-bestof\d+-([a-z0-9]+)-(\d+)/);
+  return match ? `${match[1]}-${Number(match[2]) + 1}` : undefined;
+}
+
+async function tryFetch(fetcher: ReplayFetcher, id: string): Promise<ReplayJSON | undefined> {
+  try {
+    return await fetcher.fetchReplay(id);
+  } catch {
+    return undefined;
+  }
+}
+
+interface FoundGames {
+  games: Map<number, ReplayJSON>;
+  /** Games whose replay id was guessed */
+  guessed: Set<number>;
+}
+
+/** Every game of the set that can be found, by game number. */
+async function collectGames(linked: ReplayJSON, bestOf: BestOf, fetcher: ReplayFetcher): Promise<FoundGames> {
+  const games = new Map([[bestOf.game, linked]]);
+  const guessed = new Set<number>();
+  const links = new Map<number, string>();
+  const learnLinks = (info: BestOf) => {
+    for (const [game, id] of Object.entries(info.games)) links.set(Number(game), id);
+    if (info.next) links.set(info.game + 1, info.next);
+  };
+  learnLinks(bestOf);
+  // Games link forward, so an earlier game is only known from a header that lists it, or by guessing game 1
+  const firstId = bestOf.game > 1 && !links.has(1) ? firstGameId(bestOf) : undefined;
+  if (firstId) {
+    links.set(1, firstId);
+    guessed.add(1);
+  }
+
+  for (let game = 1; game <= bestOf.total; game += 1) {
+    const id = links.get(game);
+    if (games.has(game) || !id) continue;
+    const data = await tryFetch(fetcher, id);
+    const info = data && readBestOf(data.log);
+    if (!data || info?.room !== bestOf.room) continue;
+    games.set(game, data);
+    learnLinks(info);
+  }
+  return { games, guessed };
+}
+
+/** Last game known to have been played: the highest one found, or linked from one that was. */
+function lastGameNumber(games: Map<number, ReplayJSON>): number {
+  return Math.max(...[...games].map(([game, data]) => (readBestOf(data.log)?.next ? game + 1 : game)));
+}
+
+function findSide(summary: SummarizedReplay, player: string): SideId | undefined {
+  const id = toId(player);
+  return ALL_SIDES.find((side) => toId(summary.meta.players[side]) === id);
+}
+
+/** "(+Sneasler, −Rillaboom)" against the previous game; nothing when unchanged. */
+function lineupChange(t: Translator, previous: string[] | undefined, current: string[]): string {
+  if (!previous) return '';
+  const added = current.filter((species) => !previous.includes(species)).map((species) => `+${t.species(species)}`);
+  const removed = previous.filter((species) => !current.includes(species)).map((species) => `−${t.species(species)}`);
+  const changes = [...added, ...removed];
+  return changes.length ? ` (${changes.join(', ')})` : '';
+}
+
+interface SeriesLine {
+  game?: number;
+  text: string;
+}
+
+/** Per player, one line per found game with its leads and brought Pokémon. */
+function lineupLines(t: Translator, player: string, games: SeriesGame[]): SeriesLine[] {
+  const { series } = t.messages;
+  let previous: { leads: string[]; brought: string[] } | undefined;
+  const lines: SeriesLine[] = [];
+  for (const { game, summary } of games) {
+    const side = summary && findSide(summary, player);
+    const lineup = side && summary.lineups[side];
+    if (!lineup) continue;
+    const leads = `${series.leads}: ${lineup.leads.map(t.species).join(', ')}${lineupChange(t, previous?.leads, lineup.leads)}`;
+    const brought = `${series.brought}: ${lineup.brought.map(t.species).join(' · ')}${lineupChange(t, previous?.brought, lineup.brought)}`;
+    lines.push({ game, text: `${series.game(game)} — ${leads}; ${brought}` });
+    previous = lineup;
+  }
+  return lines;
+}
+
+function seriesHeader(series: Pick<SeriesSummary, 'players' | 'score'>, format: string | undefined): string {
+  const [first, second] = series.players;
+  return `${first} ${series.score[0]}–${series.score[1]} ${second}${format ? ` — ${format}` : ''}`;
+}
+
+/** "Game 1" or "Game 1 (guessed)", as the result list labels it. */
+function gameLabel(messages: Messages, { game, summary, guessed }: SeriesGame): string {
+  return `${messages.series.game(game)}${summary && guessed ? ` (${messages.series.guessed})` : ''}`;
+}
+
+function resultText(messages: Messages, game: SeriesGame): string {
+  return `${gameLabel(messages, game)}: ${game.summary ? game.summary.resultLine : messages.series.notFound}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function gameAnchor(game: number): string {
+  return `game-${game}`;
+}
+
+function renderSeries(t: Translator, series: Omit<SeriesSummary, 'html' | 'text' | 'markdown'>, format: string | undefined) {
+  const { messages } = t;
+  const header = seriesHeader(series, format);
+  const lineups = series.players.map((player) => ({ player, lines: lineupLines(t, player, series.games) }));
+  const played = series.games.filter((game) => game.summary);
+
+  const text = [
+    header,
+    ...series.games.map((game) => resultText(messages, game)),
+    messages.series.lineups,
+    ...lineups.flatMap(({ player, lines }) => [player, ...lines.map((line) => `  ${line.text}`)]),
+    ...played.flatMap(({ game, summary }) => ['', messages.series.game(game), summary!.text]),
+  ].join('\n');
+
+  const html = [
+    `<div><strong>${escapeHtml(header)}</strong></div>`,
+    ...series.games.map((game) => {
+      const label = game.summary ? `<a href="#${gameAnchor(game.game)}">${escapeHtml(gameLabel(messages, game))}</a>` : escapeHtml(gameLabel(messages, game));
+      return `<div>${label}: ${escapeHtml(game.summary ? game.summary.resultLine : messages.series.notFound)}</div>`;
+    }),
+    `<div><strong>${escapeHtml(messages.series.lineups)}</strong></div>`,
+    ...lineups.flatMap(({ player, lines }) => [
+      `<div>${escapeHtml(player)}</div>`,
+      ...lines.map((line) => `<div>&nbsp;&nbsp;${escapeHtml(line.text)}</div>`),
+    ]),
+    ...played.flatMap(({ game, summary }) => [
+      `<h3 id="${gameAnchor(game)}">${escapeHtml(messages.series.game(game))}</h3>`,
+      summary!.html,
+    ]),
+  ].join('\n');
+
+  const markdown = [
+    `**${escapeMarkdown(header)}**`,
+    series.games.map((game) => `- ${escapeMarkdown(resultText(messages, game))}`).join('\n'),
+    `**${escapeMarkdown(messages.series.lineups)}**`,
+    ...lineups.map(({ player, lines }) => [escapeMarkdown(player), ...lines.map((line) => `- ${escapeMarkdown(line.text)}`)].join('\n')),
+    ...played.map(({ game, summary }) => `## ${escapeMarkdown(messages.series.game(game))}\n\n${summary!.markdown}`),
+  ].join('\n\n');
+
+  return { text, html, markdown };
+}
+
+/**
+ * Summarizes the set a best-of game belongs to: the score, each game's result, how each player's
+ * leads and brought Pokémon changed, then every game's own summary. Undefined for a standalone game.
+ */
+export async function summarizeSeries(
+  linked: ReplayJSON,
+  options: RenderOptions = {},
+  fetcher: ReplayFetcher = httpReplayFetcher,
+): Promise<SeriesSummary | undefined> {
+  const bestOf = readBestOf(linked.log);
+  if (!bestOf) return undefined;
+
+  const { games: found, guessed } = await collectGames(linked, bestOf, fetcher);
+  const linkedSummary = parseReplayData(linked, options);
+  const seats = [linkedSummary.meta.players.p1, linkedSummary.meta.players.p2];
+  // Seats can swap between games, so a chosen side is pinned to the player sitting there in this game
+  const perspective = options.perspective?.trim();
+  const ours = perspective && (seats.find((name) => toId(name) === toId(perspective)) ?? (toId(perspective) === 'p2' ? seats[1] : seats[0]));
+  const players = ours ? [ours, ...seats.filter((name) => name !== ours)] : seats;
+
+  const games: SeriesGame[] = [];
+  for (let game = 1; game <= lastGameNumber(found); game += 1) {
+    const data = found.get(game);
+    const summary = data && parseReplayData(data, { ...options, perspective: ours || undefined, anchorPrefix: `${gameAnchor(game)}-` });
+    games.push(guessed.has(game) ? { game, summary, guessed: true } : { game, summary });
+  }
+  const score = players.map((player) => games.filter((game) => toId(game.summary?.meta.winner) === toId(player)).length);
+  const series = { bestOf: bestOf.total, players, score, games };
+  const t = createTranslator(options.locale, options.names);
+  return { ...series, ...renderSeries(t, series, linkedSummary.meta.format) };
+}
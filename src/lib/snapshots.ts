@@ -0,0 +1,92 @@
+import type { SideId } from './protocol';
+import { toId } from './utils';
+
+export interface ActivePokemonSnapshot {
+  /** Slot on the field, e.g. "p1a" */
+  slot: string;
+  species: string;
+  nickname?: string;
+  /** Remaining HP as a percentage; undefined when the log only shows an unknown format */
+  hp?: number;
+  status?: string;
+  /** Non-zero stat stages, keyed by the protocol stat id (atk, def, spa, spd, spe, accuracy, evasion) */
+  boosts: Record<string, number>;
+  volatiles: string[];
+}
+
+export interface BenchPokemonSnapshot {
+  species: string;
+  /** False for team-preview Pokémon that haven't been sent out yet */
+  revealed: boolean;
+  hp?: number;
+  status?: string;
+  fainted: boolean;
+}
+
+export interface EffectSnapshot {
+  name: string;
+  /** Turns left including the current one; undefined for indefinite or extended effects */
+  turnsLeft?: number;
+  /** Stacked hazards (Spikes, Toxic Spikes) */
+  layers?: number;
+}
+
+export interface SideSnapshot {
+  player: string;
+  active: ActivePokemonSnapshot[];
+  bench: BenchPokemonSnapshot[];
+  conditions: EffectSnapshot[];
+}
+
+/** Board state at the start of a turn, before either side acts. */
+export interface TurnSnapshot {
+  turn: number;
+  weather?: EffectSnapshot;
+  fields: EffectSnapshot[];
+  sides: Partial<Record<SideId, SideSnapshot>>;
+}
+
+// Base durations without extenders (Damp Rock, Terrain Extender, Light Clay...)
+const WEATHER_TURNS = 5;
+
+const INDEFINITE_WEATHERS = new Set(['desolateland', 'primordialsea', 'deltastream']);
+
+const FIELD_TURNS: Record<string, number> = {
+  electricterrain: 5,
+  grassyterrain: 5,
+  mistyterrain: 5,
+  psychicterrain: 5,
+  trickroom: 5,
+  magicroom: 5,
+  wonderroom: 5,
+  gravity: 5,
+  mudsport: 5,
+  watersport: 5,
+  fairylock: 2,
+};
+
+const SIDE_CONDITION_TURNS: Record<string, number> = {
+  reflect: 5,
+  lightscreen: 5,
+  auroraveil: 5,
+  safeguard: 5,
+  mist: 5,
+  luckychant: 5,
+  tailwind: 4,
+};
+
+function effectId(name: string): string {
+  return toId(name.replace(/^(move|ability|item):\s*/i, ''));
+}
+
+export function getWeatherDuration(weather: string): number | undefined {
+  return INDEFINITE_WEATHERS.has(effectId(weather)) ? undefined : WEATHER_TURNS;
+}
+
+export function getFieldDuration(field: string): number | undefined {
+  return FIELD_TURNS[effectId(field)];
+}
+
+export function getSideConditionDuration(condition: string): number | undefined {
+  return SIDE_CONDITION_TURNS[effectId(condition)];
+}
@@ -0,0 +1,43 @@
+import { MESSAGES } from './locale';
+import type { Messages } from './locale';
+import type { SideId } from './protocol';
+
+export interface PokemonBattleStats {
+  side: SideId;
+  species: string;
+  /** Percent of opposing Pokémon's HP taken off, direct and indirect */
+  damageDealt: number;
+  damageTaken: number;
+  kos: number;
+  faints: number;
+  /** Turns started on the field */
+  turnsOnField: number;
+  /** Percent HP restored by this Pokémon, to itself or an ally */
+  healingDone: number;
+}
+
+export function createPokemonStats(side: SideId, species: string): PokemonBattleStats {
+  return { side, species, damageDealt: 0, damageTaken: 0, kos: 0, faints: 0, turnsOnField: 0, healingDone: 0 };
+}
+
+/** Most KOs, then most damage dealt; undefined when nothing was dealt at all. */
+export function pickMvp(stats: PokemonBattleStats[]): PokemonBattleStats | undefined {
+  let best: PokemonBattleStats | undefined;
+  for (const candidate of stats) {
+    if (!candidate.kos && !candidate.damageDealt) continue;
+    if (!best || candidate.kos > best.kos || (candidate.kos === best.kos && candidate.damageDealt > best.damageDealt)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+export function formatPokemonStats(stats: PokemonBattleStats, messages: Messages = MESSAGES.en): string {
+  const words = messages.pokemonStats;
+  const parts = [words.dealt(Math.round(stats.damageDealt)), words.taken(Math.round(stats.damageTaken))];
+  if (stats.kos) parts.push(words.kos(stats.kos));
+  if (stats.faints) parts.push(words.fainted(stats.faints));
+  parts.push(words.turns(stats.turnsOnField));
+  if (stats.healingDone) parts.push(words.healed(Math.round(stats.healingDone)));
+  return parts.join(', ');
+}
@@ -0,0 +1,93 @@
+import type { Messages } from './locale';
+import type { SideId } from './protocol';
+import type { TurningPoint } from './turningPoints';
+
+/** A Pokémon as the summary shows it: display name (with markers like "(opp)") and sprite. */
+export interface PokemonLabel {
+  name: string;
+  species?: string;
+  iconId?: string;
+}
+
+/** Trailing markers on a display name, e.g. " (opp)" or " (opp) (Protect)". */
+export function extractMarkers(displayName: string): string {
+  const markerMatch = displayName.match(/(\s*\([^)]+\))+$/);
+  return markerMatch ? markerMatch[0] : '';
+}
+
+/** What a detail reports, so shorter summaries know what to keep or fold. */
+export type DetailTag = 'ko' | 'field' | 'residual';
+
+/** One fact attached to an action or the end of a turn. */
+export type DetailNode =
+  | { kind: 'text'; text: string; tag?: DetailTag }
+  // "Garchomp 100% -> 45%": the Pokémon is shown by its sprite where the format has them
+  | { kind: 'pokemon'; ref: string; pokemon: PokemonLabel; body: string; tag?: DetailTag }
+  // Sprite followed by a sentence that already names the Pokémon ("Arcanine's Intimidate")
+  | { kind: 'announce'; pokemon: PokemonLabel; text: string }
+  | { kind: 'switch'; from?: PokemonLabel; to: PokemonLabel }
+  | { kind: 'group'; parts: DetailNode[]; separator: string };
+
+export type HeadlineNode =
+  | { kind: 'enter'; pokemon: PokemonLabel; verb: string }
+  // Voluntary switch; `note` carries anything announced with it ("; Intimidate")
+  | { kind: 'switch'; from?: PokemonLabel; to?: PokemonLabel; note: string }
+  | { kind: 'move'; actor: PokemonLabel; transform?: PokemonLabel; verb: string; targets: PokemonLabel[] };
+
+export interface ActionNode {
+  headline: HeadlineNode;
+  details: DetailNode[];
+  /** "; " between details, or ", " when they're all stat changes on a single target */
+  detailSeparator: string;
+  /** The move's only target; details about it drop the name since the headline already shows it */
+  targetRef?: string;
+}
+
+/** One side's end-of-turn chip damage and healing, folded onto a single line. */
+export interface ResidualLine {
+  player: string;
+  details: DetailNode[];
+}
+
+export interface TurnNode {
+  turn: number;
+  headerEvents: string[];
+  gimmickEvents: string[];
+  actions: ActionNode[];
+  endEvents: DetailNode[];
+  /** Empty unless end-of-turn chip damage was folded out of `endEvents` */
+  residual: ResidualLine[];
+  replacements: ActionNode[];
+}
+
+/** Species name plus the line shown for it (open team sheets, per-Pokémon stats). */
+export interface ListEntry {
+  species: string;
+  line: string;
+}
+
+export interface TitledList {
+  title: string;
+  entries: ListEntry[];
+}
+
+/** Everything a renderer needs, with the layout decisions (what to show, in what order) already made. */
+export interface SummaryDocument {
+  players: Array<{ side: SideId; name: string; tag: '' | '[W] ' | '[L] ' }>;
+  format?: string;
+  result: { line: string; note?: string; turn: number };
+  /** Ranked moments shown at the top, each pointing at its turn */
+  turningPoints: TurningPoint[];
+  sheets: TitledList[];
+  /** Preview teams per side; omitted when every side has an open team sheet */
+  teams?: PokemonLabel[][];
+  leads?: PokemonLabel[][];
+  /** Field effects and gimmicks from before turn 1 (e.g. Primal Reversion) */
+  leadEvents: string[];
+  turns: TurnNode[];
+  stats: TitledList[];
+  /** Catalog for the summary's language, for the renderers' own labels */
+  messages: Messages;
+  /** Prepended to the html turn ids */
+  anchorPrefix: string;
+}
@@ -0,0 +1,122 @@
+export interface RevealedPokemon {
+  species: string;
+  nickname?: string;
+  level?: number;
+  gender?: "M" | "F";
+  item?: string;
+  ability?: string;
+  teraType?: string;
+  /** Moves seen in the replay, in the order they were first used */
+  moves: string[];
+}
+
+export interface TeamSheet {
+  player: string;
+  pokemon: RevealedPokemon[];
+  /** Showdown/PokePaste import text with unknown fields left blank */
+  paste: string;
+  /** Full sets from an open team sheet (`|showteam|`), when the replay has one */
+  openSheet?: RevealedPokemon[];
+}
+
+const MOVE_SLOTS = 4;
+
+function formatPokemonPaste(mon: RevealedPokemon): string {
+  // Team preview shows some formes as "Urshifu-*" until they're sent out
+  const species = mon.species.replace(/-\*$/, '');
+  // Unnamed Pokémon carry their base species name ("Ninetales" for Ninetales-Alola)
+  const isNicknamed = mon.nickname && mon.nickname !== species && !species.startsWith(`${mon.nickname}-`);
+  const name = isNicknamed ? `${mon.nickname} (${species})` : species;
+  const gender = mon.gender ? ` (${mon.gender})` : '';
+  const item = mon.item ? ` @ ${mon.item}` : '';
+  const lines = [
+    `${name}${gender}${item}`,
+    `Ability: ${mon.ability ?? ''}`,
+  ];
+  if (mon.level && mon.level !== 100) lines.push(`Level: ${mon.level}`);
+  lines.push(`Tera Type: ${mon.teraType ?? ''}`);
+  for (let slot = 0; slot < Math.max(MOVE_SLOTS, mon.moves.length); slot++) {
+    lines.push(`- ${mon.moves[slot] ?? ''}`);
+  }
+  return lines.map(line => line.trimEnd()).join('\n');
+}
+
+export function formatPokePaste(team: RevealedPokemon[]): string {
+  return team.map(formatPokemonPaste).join('\n\n');
+}
+
+// Packed teams strip punctuation from names; these don't come back by splitting on capitals
+const PACKED_NAMES: Record<string, string> = {
+  asoneglastrier: 'As One (Glastrier)',
+  asonespectrier: 'As One (Spectrier)',
+  babydolleyes: 'Baby-Doll Eyes',
+  beadsofruin: 'Beads of Ruin',
+  doubleedge: 'Double-Edge',
+  embodyaspectcornerstone: 'Embody Aspect (Cornerstone)',
+  embodyaspecthearthflame: 'Embody Aspect (Hearthflame)',
+  embodyaspectteal: 'Embody Aspect (Teal)',
+  embodyaspectwellspring: 'Embody Aspect (Wellspring)',
+  forestscurse: "Forest's Curse",
+  freezedry: 'Freeze-Dry',
+  goodasgold: 'Good as Gold',
+  heavydutyboots: 'Heavy-Duty Boots',
+  kingsrock: "King's Rock",
+  kingsshield: "King's Shield",
+  landswrath: "Land's Wrath",
+  lockon: 'Lock-On',
+  mindseye: "Mind's Eye",
+  mudslap: 'Mud-Slap',
+  multiattack: 'Multi-Attack',
+  naturesmadness: "Nature's Madness",
+  nevermeltice: 'Never-Melt Ice',
+  powerofalchemy: 'Power of Alchemy',
+  poweruppunch: 'Power-Up Punch',
+  selfdestruct: 'Self-Destruct',
+  softboiled: 'Soft-Boiled',
+  swordofruin: 'Sword of Ruin',
+  tabletsofruin: 'Tablets of Ruin',
+  topsyturvy: 'Topsy-Turvy',
+  trickortreat: 'Trick-or-Treat',
+  uturn: 'U-turn',
+  vcreate: 'V-create',
+  vesselofruin: 'Vessel of Ruin',
+  wakeupslap: 'Wake-Up Slap',
+  wellbakedbody: 'Well-Baked Body',
+  willowisp: 'Will-O-Wisp',
+  xscissor: 'X-Scissor',
+  zerotohero: 'Zero to Hero',
+};
+
+function unpackName(packed: string): string {
+  const known = PACKED_NAMES[packed.toLowerCase()];
+  if (known) return known;
+  return packed
+    .replace(/([a-z])([A-Z0-9])/g, '$1 $2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2');
+}
+
+function parsePackedSet(packed: string): RevealedPokemon {
+  // NICKNAME|SPECIES|ITEM|ABILITY|MOVES|NATURE|EVS|GENDER|IVS|SHINY|LEVEL|HAPPINESS,POKEBALL,HPTYPE,GIGANTAMAX,DYNAMAXLEVEL,TERATYPE
+  const fields = packed.split('|');
+  const [name = '', species = '', item = '', ability = '', moves = ''] = fields;
+  const gender = fields[7];
+  const level = Number(fields[10]);
+  const teraType = (fields[11] || '').split(',')[5];
+  // The species field is left empty unless the Pokémon is nicknamed
+  const set: RevealedPokemon = {
+    species: species ? unpackName(species) : name,
+    moves: moves.split(',').filter(Boolean).map(unpackName),
+  };
+  if (species) set.nickname = name;
+  if (item) set.item = unpackName(item);
+  if (ability) set.ability = unpackName(ability);
+  if (gender === 'M' || gender === 'F') set.gender = gender;
+  if (level) set.level = level;
+  if (teraType) set.teraType = teraType;
+  return set;
+}
+
+/** Parses the packed team format used by `|showteam|` (open team sheets). */
+export function parsePackedTeam(packed: string): RevealedPokemon[] {
+  return packed.split(']').filter(Boolean).map(parsePackedSet);
+}
@@ -0,0 +1,252 @@
+import { createTranslator } from './locale';
+import type { Translator } from './locale';
+import { getMomentumScore } from './momentum';
+import type { MomentumData } from './momentum';
+import type { SideId } from './protocol';
+import { toId } from './utils';
+
+/** Something notable noticed while reading the log; combined moments (double KOs, sweeps) are derived later. */
+export type KeyMoment =
+  | { kind: 'ko'; turn: number; side: SideId; pokemon: string; by?: string; bySide?: SideId; move?: string; crit: boolean }
+  | { kind: 'miss'; turn: number; side: SideId; pokemon: string; move: string }
+  // Fully paralyzed or frozen solid
+  | { kind: 'immobilized'; turn: number; side: SideId; pokemon: string; reason: 'par' | 'frz' }
+  // Status from a damaging move's secondary effect (Scald burns, Nuzzle paralysis...)
+  | { kind: 'status'; turn: number; side: SideId; pokemon: string; status: string; move: string }
+  | { kind: 'sliver'; turn: number; side: SideId; pokemon: string; hp: number };
+
+export interface TurningPoint {
+  turn: number;
+  kind: KeyMoment['kind'] | 'double-ko' | 'lead-change' | 'sweep';
+  score: number;
+  text: string;
+}
+
+export const TURNING_POINT_LIMIT = 3;
+/** Direct hits that leave a Pokémon at or below this HP% count as surviving on a sliver */
+export const SLIVER_HP = 10;
+const HIGH_ACCURACY = 90;
+
+// Moves that can miss without accuracy drops or evasion; anything unlisted is treated as 100% accurate
+const MOVE_ACCURACY: Record<string, number> = {
+  airslash: 95,
+  aquatail: 90,
+  axekick: 90,
+  bleakwindstorm: 80,
+  blizzard: 70,
+  blueflare: 85,
+  boltstrike: 85,
+  crabhammer: 90,
+  crosschop: 80,
+  darkvoid: 50,
+  diamondstorm: 95,
+  dracometeor: 90,
+  dragonrush: 75,
+  dualwingbeat: 90,
+  dynamicpunch: 50,
+  electroweb: 95,
+  fireblast: 85,
+  firefang: 95,
+  firespin: 85,
+  fissure: 30,
+  fleurcannon: 90,
+  focusblast: 70,
+  guillotine: 30,
+  gunkshot: 80,
+  headsmash: 80,
+  heatwave: 90,
+  highjumpkick: 90,
+  horndrill: 30,
+  hurricane: 70,
+  hydropump: 80,
+  hypnosis: 60,
+  icefang: 95,
+  iciclecrash: 90,
+  icywind: 95,
+  inferno: 50,
+  irontail: 75,
+  jumpkick: 95,
+  leafstorm: 90,
+  leechseed: 90,
+  magmastorm: 75,
+  megahorn: 85,
+  meteormash: 90,
+  mountaingale: 85,
+  muddywater: 85,
+  originpulse: 85,
+  overheat: 90,
+  playrough: 90,
+  poisonpowder: 75,
+  precipiceblades: 85,
+  psychoboost: 90,
+  rockblast: 90,
+  rockslide: 90,
+  rocktomb: 95,
+  ruination: 90,
+  sacredfire: 95,
+  sandsearstorm: 80,
+  sandtomb: 85,
+  scaleshot: 90,
+  screech: 85,
+  seedflare: 85,
+  sheercold: 30,
+  sing: 55,
+  sleeppowder: 75,
+  snarl: 95,
+  springtidestorm: 80,
+  steelwing: 90,
+  stoneedge: 80,
+  stunspore: 75,
+  supersonic: 55,
+  syrupbomb: 85,
+  thunder: 70,
+  thunderfang: 95,
+  thunderwave: 90,
+  toxic: 90,
+  tripleaxel: 90,
+  whirlpool: 85,
+  wildboltstorm: 80,
+  willowisp: 85,
+  zapcannon: 50,
+  zenheadbutt: 90,
+};
+
+export function getMoveAccuracy(move: string): number {
+  return MOVE_ACCURACY[toId(move)] ?? 100;
+}
+
+/** Species names for moment text, given the side the Pokémon is on */
+type NameMoment = (species: string, side: SideId | undefined) => string;
+
+// In a mirror match "Dragonite KOs Dragonite" needs its players to make sense
+function createMomentNamer(t: Translator, momentum: MomentumData, rosters: Partial<Record<SideId, { brought: string[] }>>): NameMoment {
+  const sidesBySpecies = new Map<string, Set<SideId>>();
+  for (const [side, roster] of Object.entries(rosters) as [SideId, { brought: string[] } | undefined][]) {
+    for (const species of roster?.brought ?? []) sidesBySpecies.set(species, (sidesBySpecies.get(species) ?? new Set()).add(side));
+  }
+  return (species, side) => {
+    const name = t.species(species);
+    const mirrored = (sidesBySpecies.get(species)?.size ?? 0) > 1;
+    return side && mirrored ? t.messages.possessive(momentum.players[side] ?? side, name) : name;
+  };
+}
+
+function describeMoment(moment: KeyMoment, t: Translator, name: NameMoment): string {
+  const m = t.messages.moments;
+  const pokemon = name(moment.pokemon, moment.side);
+  switch (moment.kind) {
+    case 'ko': {
+      const by = moment.by && name(moment.by, moment.bySide);
+      return m.ko(pokemon, by && moment.move ? m.attack(by, t.move(moment.move)) : by, moment.crit);
+    }
+    case 'miss':
+      return m.miss(m.attack(pokemon, t.move(moment.move)), getMoveAccuracy(moment.move));
+    case 'immobilized':
+      return moment.reason === 'par' ? m.fullyParalyzed(pokemon) : m.frozen(pokemon);
+    case 'status':
+      return m.statused(pokemon, m.statuses[moment.status] ?? moment.status.toUpperCase(), t.move(moment.move));
+    case 'sliver':
+      return m.survives(pokemon, moment.hp);
+  }
+}
+
+function scoreMoment(moment: KeyMoment): number {
+  switch (moment.kind) {
+    // A KO changes the board for good, so it outranks any status proc, miss or survival (all below 3)
+    case 'ko':
+      return moment.crit ? 4 : 3;
+    case 'miss':
+      // A 100% move missing is more of a story than a 90% one
+      return 2 + (getMoveAccuracy(moment.move) - HIGH_ACCURACY) / 20;
+    case 'immobilized':
+      return 2.5;
+    case 'status':
+      return 2;
+    case 'sliver':
+      return 2.5;
+  }
+}
+
+function findDoubleKos(kos: Array<Extract<KeyMoment, { kind: 'ko' }>>, t: Translator, name: NameMoment): TurningPoint[] {
+  const byTurn = new Map<number, string[]>();
+  for (const ko of kos) byTurn.set(ko.turn, [...(byTurn.get(ko.turn) ?? []), name(ko.pokemon, ko.side)]);
+  return [...byTurn]
+    .filter(([, fallen]) => fallen.length >= 2)
+    .map(([turn, fallen]) => ({
+      turn,
+      kind: 'double-ko' as const,
+      score: 2 + fallen.length,
+      text: t.messages.moments.multiKo(fallen),
+    }));
+}
+
+function findLeadChanges(momentum: MomentumData, t: Translator): TurningPoint[] {
+  const sides = Object.keys(momentum.players) as SideId[];
+  if (sides.length !== 2) return [];
+  const changes: Array<{ turn: number; side: SideId }> = [];
+  let leader: SideId | undefined;
+  for (const point of momentum.points) {
+    const difference = getMomentumScore(point.sides[sides[0]]) - getMomentumScore(point.sides[sides[1]]);
+    const ahead = difference > 0 ? sides[0] : difference < 0 ? sides[1] : undefined;
+    // An even board doesn't end a lead, and the first side to pull ahead isn't a change
+    if (!ahead || ahead === leader) continue;
+    if (leader) changes.push({ turn: point.turn, side: ahead });
+    leader = ahead;
+  }
+  return changes.map(({ turn, side }, index) => {
+    const forGood = index === changes.length - 1;
+    return { turn, kind: 'lead-change' as const, score: forGood ? 5 : 3, text: t.messages.moments.takesLead(momentum.players[side] ?? side, forGood) };
+  });
+}
+
+function findFinalSweep(
+  kos: Array<Extract<KeyMoment, { kind: 'ko' }>>,
+  winner: SideId | undefined,
+  winnerName: string | undefined,
+  t: Translator,
+  name: NameMoment,
+): TurningPoint[] {
+  if (!winner) return [];
+  // The unanswered KOs that ended the game
+  let start = kos.length;
+  while (start > 0 && kos[start - 1].side !== winner) start -= 1;
+  const run = kos.slice(start);
+  if (run.length < 2) return [];
+  const sweepers = new Set(run.map((ko) => ko.by));
+  const [sweeper] = sweepers;
+  const text = sweepers.size === 1 && sweeper
+    ? t.messages.moments.sweeps(name(sweeper, winner), run.length)
+    : t.messages.moments.closesOut(winnerName ?? winner, run.length);
+  return [{ turn: run[0].turn, kind: 'sweep', score: 4 + run.length, text }];
+}
+
+/**
+ * Scores the moments worth talking about and returns the top ones, highest first.
+ * Ties go to the earlier turn. `rosters` (each side's brought Pokémon) tells apart species both sides brought.
+ */
+export function findTurningPoints(
+  moments: KeyMoment[],
+  momentum: MomentumData,
+  winner?: SideId,
+  t: Translator = createTranslator(),
+  rosters: Partial<Record<SideId, { brought: string[] }>> = {},
+  limit = TURNING_POINT_LIMIT,
+): TurningPoint[] {
+  const name = createMomentNamer(t, momentum, rosters);
+  const kos = moments.filter((moment): moment is Extract<KeyMoment, { kind: 'ko' }> => moment.kind === 'ko');
+  const notable = (moment: KeyMoment) => {
+    if (moment.kind === 'miss') return getMoveAccuracy(moment.move) >= HIGH_ACCURACY;
+    // A Pokémon knocked out later in the same turn didn't really survive
+    if (moment.kind === 'sliver') return !kos.some((ko) => ko.turn === moment.turn && ko.side === moment.side && ko.pokemon === moment.pokemon);
+    return true;
+  };
+  const points: TurningPoint[] = [
+    ...moments.filter(notable).map((moment) => ({ turn: moment.turn, kind: moment.kind, score: scoreMoment(moment), text: describeMoment(moment, t, name) })),
+    ...findDoubleKos(kos, t, name),
+    ...findLeadChanges(momentum, t),
+    ...findFinalSweep(kos, winner, winner && momentum.players[winner], t, name),
+  ];
+  return points
+    .sort((a, b) => b.score - a.score || a.turn - b.turn)
+    .slice(0, limit);
+}
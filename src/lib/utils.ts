@@ -1,3 +1,5 @@
+import type { TurnSnapshot } from './snapshots';
+
 export function toId(text: string | null | undefined): string {
   if (!text) return '';
   return String(text)
@@ -37,6 +39,15 @@ export function parseHPStatus(raw: string): HPStatus {
   };
 }
 
+export function getHPPercent(value: HPStatus): number | undefined {
+  if (value.fainted) return 0;
+  const match = value.hp?.match(/^(\d+)\/(\d+)$/);
+  if (!match || !Number(match[2])) return undefined;
+  const current = Number(match[1]);
+  // Never round a Pokémon that's still standing down to 0%
+  return current > 0 ? Math.max(1, Math.round((current / Number(match[2])) * 100)) : 0;
+}
+
 export function formatHPStatus(value: HPStatus): string {
   if (value.fainted) return 'KO';
   const parts: string[] = [];
@@ -60,6 +71,11 @@ export function prettifyMove(move: string): string {
     .join(' ');
 }
 
+export function escapeMarkdown(text: string): string {
+  // Names and messages are free text; keep them from turning into emphasis, links or tables
+  return text.replace(/[\\`*_[\]<|~]/g, '\\$&');
+}
+
 export function simplifyBracketText(segment: string): string {
   if (!segment) return '';
   const bracketMatch = segment.match(/^\[(.+?)\]\s*(.*)$/);
@@ -90,29 +106,75 @@ export function simplifyBracketText(segment: string): string {
 interface SummaryResponse {
   html: string;
   text: string;
+  markdown?: string;
+  discord?: string[];
+  /** Players (ours first), format and how it ended, as the summary's first line */
+  matchLine: string;
+  /** How the game ended ("X Wins on T7"), in the summary's language and from the perspective's side */
+  resultLine: string;
+  snapshots?: TurnSnapshot[];
+  teams?: Partial<Record<'p1' | 'p2' | 'p3' | 'p4', { player: string; paste: string }>>;
+  momentum?: { svg: string };
+  /** The whole best-of set, when requested and the replay is part of one */
+  series?: {
+    players: string[];
+    score: number[];
+    html: string;
+    text: string;
+    markdown: string;
+  };
   meta: {
     id?: string;
     format?: string;
-    players: { p1: string; p2: string };
+    gameType?: string;
+    players: { p1: string; p2: string; p3?: string; p4?: string };
     winner?: string;
     loser?: string;
     resultNote?: string;
+    result?: {
+      kind: 'win' | 'tie' | 'forfeit' | 'timer' | 'incomplete';
+      turn: number;
+      winner?: string;
+      loser?: string;
+      note?: string;
+    };
   };
   error?: string;
 }
 
-export async function requestSummary(url: string): Promise<SummaryResponse> {
+export type SummaryVerbosity = 'full' | 'standard' | 'highlights';
+
+export type SummaryLocale = 'en' | 'ja' | 'es' | 'fr';
+
+interface SummaryRequestOptions {
+  markdownIcons?: boolean;
+  discordEmoji?: Record<string, string>;
+  verbosity?: SummaryVerbosity;
+  locale?: SummaryLocale;
+  /** "p1", "p2" or a player name; the side shown as ours */
+  perspective?: string;
+  series?: boolean;
+  /** Download the replay again instead of using the server's stored copy */
+  refresh?: boolean;
+}
+
+/** One replay of a batch: its summary, or why it couldn't be summarized */
+export type BatchSummaryResult =
+  | { url: string; summary: SummaryResponse }
+  | { url: string; error: { kind: 'invalid-url' | 'fetch' | 'parse'; message: string } };
+
+async function postSummaryRequest<T>(body: Record<string, unknown>): Promise<T> {
   const response = await fetch('/api/summary', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ url }),
+    body: JSON.stringify(body),
   });
 
   if (!response.ok) {
     // Try to parse JSON error response, fall back to plain text
     let errorMessage = 'Failed to summarize replay';
     try {
-      const payload = (await response.json()) as SummaryResponse;
+      const payload = (await response.json()) as { error?: string };
       errorMessage = payload.error ?? errorMessage;
     } catch {
       // Response wasn't valid JSON, try to get plain text
@@ -126,7 +188,22 @@ export async function requestSummary(url: string): Promise<SummaryResponse> {
     throw new Error(errorMessage);
   }
 
-  return (await response.json()) as SummaryResponse;
+  return (await response.json()) as T;
+}
+
+export function requestSummary(url: string, options: SummaryRequestOptions = {}): Promise<SummaryResponse> {
+  return postSummaryRequest<SummaryResponse>({ url, ...options });
+}
+
+/** Summarizes a pasted battle log or the contents of an uploaded replay .json/.html file. */
+export function requestUploadSummary(content: string, options: SummaryRequestOptions = {}): Promise<SummaryResponse> {
+  return postSummaryRequest<SummaryResponse>({ content, ...options });
+}
+
+/** Summarizes several replays in one request; a failing replay gets an error entry instead of failing the batch. */
+export async function requestBatchSummary(urls: string[], options: Omit<SummaryRequestOptions, 'series'> = {}): Promise<BatchSummaryResult[]> {
+  const { results } = await postSummaryRequest<{ results: BatchSummaryResult[] }>({ urls, ...options });
+  return results;
 }
 
 export async function copySummaryToClipboard(summary: SummaryResponse): Promise<void> {
@@ -155,3 +232,30 @@ export async function copySummaryToClipboard(summary: SummaryResponse): Promise<
 
   await navigator.clipboard.writeText(summary.text);
 }
+
+export async function copyTextToClipboard(text: string): Promise<void> {
+  if (typeof navigator === 'undefined' || !navigator.clipboard?.writeText) {
+    throw new Error('Clipboard API is unavailable in this browser.');
+  }
+  await navigator.clipboard.writeText(text);
+}
+
+export async function copyMarkdownToClipboard(summary: SummaryResponse): Promise<void> {
+  if (!summary.markdown) {
+    throw new Error('This summary has no Markdown version.');
+  }
+  await copyTextToClipboard(summary.markdown);
+}
+
+/** Reads "Species = <:emoji:id>" lines into a species → emoji map; "=" since both sides can contain ":". */
+export function parseEmojiMap(text: string): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator === -1) continue;
+    const species = line.slice(0, separator).trim();
+    const emoji = line.slice(separator + 1).trim();
+    if (species && emoji) map[species] = emoji;
+  }
+  return map;
+}
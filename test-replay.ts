@@ -1,24 +1,51 @@
 #!/usr/bin/env tsx
 /**
  * Test script to generate replay summaries from command line
- * Usage: npx tsx test-replay.ts <replay-url>
+ * Usage: npx tsx test-replay.ts [--dir <folder>] [--series] [--refresh] [--offline] <replay-url>
  * Example: npx tsx test-replay.ts https://replay.pokemonshowdown.com/gen9vgc2024reghbo3-2247069894
+ * Offline: npx tsx test-replay.ts --dir examples --series gen9vgc2024reghbo3-2258773905
+ *
+ * Downloaded replays are kept in data/replays; --refresh downloads again, --offline only reads what's kept there.
  */
 
-import { summarizeReplay } from './src/lib/parser';
+import { parseReplayData } from './src/lib/parser';
+import { createDirectoryFetcher, createReplayStore } from './src/lib/replayFiles';
+import { summarizeSeries } from './src/lib/series';
+
+function takeFlag(args: string[], flag: string): boolean {
+  const index = args.indexOf(flag);
+  if (index !== -1) args.splice(index, 1);
+  return index !== -1;
+}
 
 async function main() {
-  const url = process.argv[2];
+  const args = process.argv.slice(2);
+  const dirIndex = args.indexOf('--dir');
+  const directory = dirIndex === -1 ? undefined : args.splice(dirIndex, 2)[1];
+  const series = takeFlag(args, '--series');
+  const refresh = takeFlag(args, '--refresh');
+  const offline = takeFlag(args, '--offline');
+  const url = args[0];
 
   if (!url) {
-    console.error('Usage: npx tsx test-replay.ts <replay-url>');
+    console.error('Usage: npx tsx test-replay.ts [--dir <folder>] [--series] [--refresh] [--offline] <replay-url>');
     console.error('Example: npx tsx test-replay.ts https://replay.pokemonshowdown.com/gen9vgc2024reghbo3-2247069894');
     process.exit(1);
   }
 
   try {
+    // --dir reads saved replay JSON (e.g. examples/) instead of the replay server
+    const fetcher = directory ? createDirectoryFetcher(directory) : createReplayStore(undefined, undefined, { refresh, offline });
     console.log(`Fetching replay: ${url}\n`);
-    const result = await summarizeReplay(url);
+    const data = await fetcher.fetchReplay(url);
+
+    if (series) {
+      const summary = await summarizeSeries(data, {}, fetcher);
+      console.log(summary ? summary.text : 'Not part of a best-of set.');
+      return;
+    }
+
+    const result = parseReplayData(data);
 
     console.log('=== TEXT OUTPUT ===');
     console.log(result.text);
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { analyzeReplays, analyzeSummaries, formatAnalytics } from '../src/lib/analytics';
+import { parseReplayData } from '../src/lib/parser';
+import { exampleBattleNumbers, readExample } from './examples';
+
+const examples = () => exampleBattleNumbers().map(readExample);
+
+test("tallies every example from the tracked player's side", () => {
+  const analytics = analyzeReplays(examples(), ['ChineseObama']);
+  assert.equal(analytics.games, 6);
+  assert.equal(analytics.wins, 4);
+  assert.equal(analytics.averageTurns, 44 / 6);
+  assert.deepEqual(analytics.brought[0], { name: 'Ursaluna', games: 4, wins: 3 });
+  assert.deepEqual(analytics.leadPairs.find((record) => record.name === 'Farigiraf + Gholdengo'), { name: 'Farigiraf + Gholdengo', games: 1, wins: 1 });
+  assert.deepEqual(analytics.tera[0], { species: 'Incineroar', games: 3, teras: 2, types: { Ghost: 1, Flying: 1 } });
+  assert.deepEqual(analytics.opponents[0], { name: 'Dragonite', games: 3, wins: 2 });
+  assert.deepEqual(analytics.skipped, []);
+});
+
+test('lead pairs count together whichever slot each Pokémon led from', () => {
+  const analytics = analyzeReplays(examples(), ['chineseobama']);
+  const names = analytics.leadPairs.map((record) => record.name);
+  assert.ok(names.every((name) => name === name.split(' + ').sort().join(' + ')), names.join(', '));
+});
+
+test('replays without a tracked player are skipped, and teammates are not opponents', () => {
+  const summaries = examples().map((replay) => parseReplayData(replay));
+  const analytics = analyzeSummaries(summaries, ['namboyVGC', 'chineseobama']);
+  // Both players of 2247069894 are tracked, so neither side's Pokémon count as opponents there
+  const alone = analyzeSummaries(summaries, ['chineseobama']);
+  assert.equal(analytics.opponents.find((record) => record.name === 'Gholdengo')?.games, (alone.opponents.find((record) => record.name === 'Gholdengo')?.games ?? 0) - 1);
+  assert.deepEqual(analyzeSummaries(summaries, ['nobody']).skipped, summaries.map((summary) => summary.meta.id));
+});
+
+test('formatAnalytics leads with the overall record', () => {
+  const [header] = formatAnalytics(analyzeReplays(examples(), ['chineseobama'])).split('\n');
+  assert.equal(header, 'chineseobama — 6 games, 4 won (67%), 7.3 turns on average');
+});
@@ -0,0 +1,14 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { ReplayJSON } from '../src/lib/parser';
+
+/** The saved replays in `examples/`, named by battle number */
+export const EXAMPLES = path.join(__dirname, '..', 'examples');
+
+export function readExample(battleNumber: string): ReplayJSON {
+  return JSON.parse(readFileSync(path.join(EXAMPLES, `${battleNumber}.json`), 'utf8')) as ReplayJSON;
+}
+
+export function exampleBattleNumbers(): string[] {
+  return readdirSync(EXAMPLES).filter((name) => name.endsWith('.json')).map((name) => name.replace(/\.json$/, '')).sort();
+}
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseReplayData } from '../src/lib/parser';
+
+const log = [
+  '|player|p1|Alice|',
+  '|player|p2|Bob|',
+  '|gametype|doubles',
+  '|gen|9',
+  '|tier|[Gen 9] VGC',
+  '|start',
+  '|switch|p1a: Groudon|Groudon, L50|100/100',
+  '|switch|p1b: Kyogre|Kyogre, L50|100/100',
+  '|switch|p2a: Incineroar|Incineroar, L50|100/100',
+  '|switch|p2b: Rillaboom|Rillaboom, L50|100/100',
+  '|detailschange|p1a: Groudon|Groudon-Primal, L50',
+  '|-primal|p1a: Groudon',
+  '|detailschange|p1b: Kyogre|Kyogre-Primal, L50',
+  '|-primal|p1b: Kyogre',
+  '|turn|1',
+  '|-terastallize|p2a: Incineroar|Grass',
+  '|-terastallize|p2a: Incineroar|Grass',
+  '|move|p2a: Incineroar|Fake Out|p1a: Groudon',
+  '|-damage|p1a: Groudon|90/100',
+  '|turn|2',
+].join('\n');
+
+test('both primals of a side count, but a repeated Tera only once', () => {
+  const { meta, text } = parseReplayData({ log });
+  assert.deepEqual(meta.gimmicks.map((use) => `${use.side} ${use.kind} ${use.pokemon}`), [
+    'p1 primal Groudon-Primal',
+    'p1 primal Kyogre-Primal',
+    'p2 tera Incineroar',
+  ]);
+  // The turn still shows every gimmick line the log has
+  assert.equal(text.split('\n').filter((line) => line.includes('Grass')).length, 2, text);
+});
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { findPlayerSide, parseReplayData } from '../src/lib/parser';
+import { readExample } from './examples';
+
+test("the match line puts the perspective's player first", () => {
+  const replay = readExample('2247069894');
+  assert.equal(parseReplayData(replay).matchLine, '[L] namboyVGC vs [W] chineseobama — [Gen 9] VGC 2024 Reg H (Bo3)');
+  assert.equal(parseReplayData(replay, { perspective: 'p2' }).matchLine, '[W] chineseobama vs [L] namboyVGC — [Gen 9] VGC 2024 Reg H (Bo3)');
+  assert.equal(parseReplayData(replay, { perspective: 'ChineseObama' }).text.split('\n')[0], '[W] chineseobama vs [L] namboyVGC — [Gen 9] VGC 2024 Reg H (Bo3)');
+});
+
+test('perspectives match a side or a player name, including in pasted logs', () => {
+  const replay = readExample('2247069894');
+  const pasted = { log: replay.log };
+  for (const data of [replay, pasted]) {
+    assert.equal(findPlayerSide(data, 'p1'), 'p1');
+    assert.equal(findPlayerSide(data, ' P2 '), 'p2');
+    assert.equal(findPlayerSide(data, 'ChineseObama'), 'p2');
+    assert.equal(findPlayerSide(data, 'p3'), undefined);
+    assert.equal(findPlayerSide(data, 'nobody'), undefined);
+  }
+  assert.throws(() => parseReplayData(replay, { perspective: 'nobody' }), /Unknown player: nobody/);
+});
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { test } from 'node:test';
+import { formatReplayRef, parseReplayRef } from '../src/lib/replays';
+import type { ReplayFetcher } from '../src/lib/replays';
+import { createReplayStore } from '../src/lib/replayFiles';
+import { readExample } from './examples';
+
+const ID = 'gen9vgc2024reghbo3-2247069894';
+
+test('parseReplayRef reads replay links, room links and bare ids', () => {
+  for (const input of [
+    `https://replay.pokemonshowdown.com/${ID}`,
+    `https://replay.pokemonshowdown.com/${ID}/`,
+    `https://replay.pokemonshowdown.com/${ID}?p2#turn-3`,
+    `replay.pokemonshowdown.com/${ID}.json`,
+    `https://play.pokemonshowdown.com/battle-${ID}`,
+    `battle-${ID}`,
+    `  ${ID.toUpperCase()}  `,
+  ]) {
+    assert.deepEqual(parseReplayRef(input), { id: ID, password: undefined }, input);
+  }
+  assert.deepEqual(parseReplayRef('https://replay.pokemonshowdown.com/smogtours-gen9ou-812345'), { id: 'smogtours-gen9ou-812345', password: undefined });
+});
+
+test('private replay passwords need their "pw" suffix', () => {
+  const ref = parseReplayRef(`https://play.pokemonshowdown.com/battle-${ID}-k3j4h5g6pw`);
+  assert.deepEqual(ref, { id: ID, password: 'k3j4h5g6' });
+  assert.equal(formatReplayRef(ref), `${ID}-k3j4h5g6pw`);
+  // A password ending in "pw" keeps it
+  assert.equal(parseReplayRef(`${ID}-abcpwpw`).password, 'abcpw');
+  // Without the suffix, a trailing number could be a password or a battle number
+  assert.throws(() => parseReplayRef('battle-gen9ou-123-1234567'), /Not a replay link or id/);
+});
+
+test('parseReplayRef refuses anything else', () => {
+  assert.throws(() => parseReplayRef(''), /Replay URL is required/);
+  assert.throws(() => parseReplayRef('https://example.com/gen9ou-123'), /Not a Pokémon Showdown link/);
+  for (const input of ['https://replay.pokemonshowdown.com/', 'hello world', 'gen9ou']) {
+    assert.throws(() => parseReplayRef(input), /Not a replay link or id/, input);
+  }
+});
+
+test('the store keeps a private replay under its password and only returns it for that password', async () => {
+  const replay = readExample('2247069894');
+  const full = `${ID}-${replay.password}pw`;
+  const upstream: ReplayFetcher = {
+    async fetchReplay(input) {
+      if (parseReplayRef(input).password !== replay.password) throw new Error('Replay not found');
+      return replay;
+    },
+  };
+  const directory = await mkdtemp(path.join(tmpdir(), 'replay-store-'));
+  try {
+    await createReplayStore(directory, upstream).fetchReplay(full);
+    assert.deepEqual(await readdir(directory), [`${full}.json`]);
+    assert.equal((await createReplayStore(directory, upstream, { offline: true }).fetchReplay(full)).id, ID);
+    for (const other of [ID, `${ID}-wrongpw`]) {
+      await assert.rejects(createReplayStore(directory, upstream, { offline: true }).fetchReplay(other), /is not in/);
+    }
+    // Nor does a private replay saved under its bare id answer for it
+    await writeFile(path.join(directory, `${ID}.json`), JSON.stringify(replay));
+    await assert.rejects(createReplayStore(directory, upstream, { offline: true }).fetchReplay(ID), /is not in/);
+  } finally {
+    await rm(directory, { recursive: true });
+  }
+});
@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseReplayData } from '../src/lib/parser';
+import { readExample } from './examples';
+
+/** A two-turn singles battle between Alice and Bob, ended by `ending`. */
+function battle(...ending: string[]): string {
+  return [
+    '|player|p1|Alice|',
+    '|player|p2|Bob|',
+    '|gametype|singles',
+    '|start',
+    '|switch|p1a: Pikachu|Pikachu, L50|100/100',
+    '|switch|p2a: Snorlax|Snorlax, L50|100/100',
+    '|turn|1',
+    '|move|p1a: Pikachu|Thunderbolt|p2a: Snorlax',
+    '|-damage|p2a: Snorlax|60/100',
+    '|turn|2',
+    ...ending,
+  ].join('\n');
+}
+
+test('a replay that ends in a KO is a plain win', () => {
+  const { meta, resultLine } = parseReplayData(readExample('2247069894'));
+  assert.deepEqual(meta.result, { kind: 'win', turn: 7, winner: 'chineseobama', loser: 'namboyVGC' });
+  assert.equal(resultLine, 'chineseobama Wins on T7');
+});
+
+test('a forfeit names who forfeited as the loser', () => {
+  const { meta, resultLine } = parseReplayData(readExample('2451262853'));
+  assert.deepEqual(meta.result, { kind: 'forfeit', turn: 7, winner: 'send me straws', loser: 'chineseobama', note: 'Forfeit' });
+  assert.equal(resultLine, 'send me straws Wins on T7 (Forfeit)');
+});
+
+test('a timer loss, tie and unfinished replay each have their own result', () => {
+  const timer = parseReplayData({ log: battle('|-message|Bob lost due to inactivity.', '|win|Alice') });
+  assert.deepEqual(timer.meta.result, { kind: 'timer', turn: 2, winner: 'Alice', loser: 'Bob', note: 'Timer' });
+
+  const tie = parseReplayData({ log: battle('|tie') });
+  assert.deepEqual(tie.meta.result, { kind: 'tie', turn: 2, note: 'Tie' });
+  assert.equal(tie.meta.winner, undefined);
+
+  const unfinished = parseReplayData({ log: battle() });
+  assert.deepEqual(unfinished.meta.result, { kind: 'incomplete', turn: 2, note: 'Incomplete' });
+});
+
+test('the result line follows the perspective and the locale', () => {
+  const replay = readExample('2247069894');
+  assert.equal(parseReplayData(replay, { perspective: 'p1' }).resultLine, 'Lost on T7');
+  assert.equal(parseReplayData(replay, { perspective: 'chineseobama' }).resultLine, 'Won on T7');
+  assert.equal(parseReplayData(replay, { locale: 'ja' }).resultLine, 'chineseobamaの勝利 (7ターン目)');
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { ReplayFetcher, ReplayJSON } from '../src/lib/parser';
+import { readBestOf, summarizeSeries } from '../src/lib/series';
+import { readExample } from './examples';
+
+/** Answers from `replays` by id, remembering every id it was asked for. */
+function stubFetcher(replays: Record<string, ReplayJSON> = {}): ReplayFetcher & { asked: string[] } {
+  const asked: string[] = [];
+  return {
+    asked,
+    async fetchReplay(replay) {
+      asked.push(replay);
+      const data = replays[replay];
+      if (!data) throw new Error(`Replay ${replay} not found`);
+      return data;
+    },
+  };
+}
+
+// Game 2 of a set whose game 3 is linked, with a private series room
+const GAME_2 = '2451262853';
+const ROOM = 'game-bestof3-gen9vgc2025reghbo3-2451260254-frglt80xvjxe6gtid4mssfkpugel3ikpw';
+const GAME_3_ID = 'gen9vgc2025reghbo3-2451264997-g9hm60f2wgpf7dw1bj1s8k18y9hc42jpw';
+
+/** The same game relabelled as game 1 of its set, standing in for a game we have no replay of. */
+function asGameOne(replay: ReplayJSON): ReplayJSON {
+  return { ...replay, log: replay.log.replace('<strong>Game 2</strong>', '<strong>Game 1</strong>').replace(/^\|uhtml\|next\|.*$/m, '') };
+}
+
+test('readBestOf reads the game, set length, room and next game', () => {
+  assert.deepEqual(readBestOf(readExample(GAME_2).log), { game: 2, total: 3, room: ROOM, next: GAME_3_ID, games: {} });
+  assert.equal(readBestOf(readExample('2437983525').log), undefined);
+});
+
+test('readBestOf takes game links from a redrawn header', () => {
+  const log = `${readExample(GAME_2).log}\n|uhtmlchange|bestof|<h2><a href="/battle-gen9vgc2025reghbo3-2451260255-abcpw" class="subtle"><strong>Game 1</strong></a></h2>`;
+  assert.deepEqual(readBestOf(log)?.games, { 1: 'gen9vgc2025reghbo3-2451260255-abcpw' });
+});
+
+test('a standalone game is not a series', async () => {
+  assert.equal(await summarizeSeries(readExample('2437983525'), {}, stubFetcher()), undefined);
+});
+
+test('without a header link, game 1 is guessed from the series room and marked', async () => {
+  const game2 = readExample(GAME_2);
+  const fetcher = stubFetcher({ 'gen9vgc2025reghbo3-2451260255': asGameOne(game2) });
+  const series = await summarizeSeries(game2, {}, fetcher);
+  assert.deepEqual(fetcher.asked, ['gen9vgc2025reghbo3-2451260255', GAME_3_ID]);
+  assert.deepEqual(series?.games.map(({ game, summary, guessed }) => [game, Boolean(summary), guessed]), [
+    [1, true, true],
+    [2, true, undefined],
+    [3, false, undefined],
+  ]);
+  assert.match(series!.text, /^Game 1 \(replay id guessed\): /m);
+  assert.match(series!.text, /^Game 3: not found$/m);
+});
+
+test('a game linked from the header is fetched by its link, not guessed', async () => {
+  const game2 = readExample(GAME_2);
+  const linkedId = 'gen9vgc2025reghbo3-2451260255-abcpw';
+  const linked = { ...game2, log: `${game2.log}\n|uhtmlchange|bestof|<a href="/battle-${linkedId}"><strong>Game 1</strong></a>` };
+  const fetcher = stubFetcher({ [linkedId]: asGameOne(game2) });
+  const series = await summarizeSeries(linked, {}, fetcher);
+  assert.equal(fetcher.asked[0], linkedId);
+  assert.equal(series?.games[0].guessed, undefined);
+  assert.match(series!.text, /^Game 1: /m);
+});
+
+test('a guessed replay from another set is left out', async () => {
+  const other = readExample('2258773905');
+  const fetcher = stubFetcher({ 'gen9vgc2025reghbo3-2451260255': other });
+  const series = await summarizeSeries(readExample(GAME_2), {}, fetcher);
+  assert.equal(series?.games[0].summary, undefined);
+  assert.match(series!.text, /^Game 1: not found$/m);
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseReplayData } from '../src/lib/parser';
+import { findTurningPoints } from '../src/lib/turningPoints';
+import type { KeyMoment } from '../src/lib/turningPoints';
+import { exampleBattleNumbers, readExample } from './examples';
+
+const noMomentum = { players: { p1: 'Alice', p2: 'Bob' }, points: [], markers: [] };
+
+test('a KO outranks earlier misses, procs and survivals', () => {
+  const moments: KeyMoment[] = [
+    { kind: 'miss', turn: 1, side: 'p1', pokemon: 'Garchomp', move: 'Earthquake' },
+    { kind: 'immobilized', turn: 1, side: 'p2', pokemon: 'Amoonguss', reason: 'par' },
+    { kind: 'sliver', turn: 2, side: 'p2', pokemon: 'Incineroar', hp: 3 },
+    { kind: 'status', turn: 2, side: 'p1', pokemon: 'Garchomp', status: 'brn', move: 'Scald' },
+    { kind: 'ko', turn: 5, side: 'p2', pokemon: 'Amoonguss', by: 'Garchomp', bySide: 'p1', move: 'Earthquake', crit: false },
+  ];
+  const [top] = findTurningPoints(moments, noMomentum);
+  assert.equal(top.kind, 'ko');
+  assert.equal(top.turn, 5);
+});
+
+test('a crit KO outranks a plain one', () => {
+  const moments: KeyMoment[] = [
+    { kind: 'ko', turn: 1, side: 'p2', pokemon: 'Amoonguss', by: 'Garchomp', bySide: 'p1', move: 'Earthquake', crit: false },
+    { kind: 'ko', turn: 4, side: 'p1', pokemon: 'Garchomp', by: 'Amoonguss', bySide: 'p2', move: 'Sludge Bomb', crit: true },
+  ];
+  assert.deepEqual(findTurningPoints(moments, noMomentum).map((point) => point.turn), [4, 1]);
+});
+
+test('examples never rank a miss or status proc above a KO', () => {
+  for (const file of exampleBattleNumbers()) {
+    const points = parseReplayData(readExample(file)).turningPoints;
+    const firstMinor = points.findIndex((point) => ['miss', 'immobilized', 'status', 'sliver'].includes(point.kind));
+    const lastKo = points.map((point) => point.kind).lastIndexOf('ko');
+    if (firstMinor !== -1 && lastKo !== -1) assert.ok(lastKo < firstMinor, `${file}: ${JSON.stringify(points)}`);
+  }
+});
+
+test("the Fissure KO is the forfeit game's top turning point", () => {
+  const [top] = parseReplayData(readExample('2451262853')).turningPoints;
+  assert.equal(top.text, "Dondozo's Fissure KOs Farigiraf");
+});
+
+test('mirror-match KOs name whose Pokémon went down', () => {
+  const points = parseReplayData(readExample('2247069894')).turningPoints;
+  assert.ok(points.some((point) => point.text === "namboyVGC's Dragonite's Scale Shot crits and KOs chineseobama's Dragonite"));
+});
+